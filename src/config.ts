@@ -0,0 +1,196 @@
+/**
+ * Server configuration from CLI arguments and environment variables
+ * Every setting is validated with zod; CLI flags take precedence over the environment
+ */
+
+import path from "path";
+import { z } from "zod";
+import { DEFAULT_MAX_FILE_SIZE } from "./types";
+import { ValidationError } from "./utils/errors";
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 3000;
+const DEFAULT_LOG_FILE_MAX_SIZE = 10 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60;
+
+/**
+ * Schema for the complete server configuration
+ */
+export const configSchema = z.object({
+  /** External directories whose markdown files are served as extra topics */
+  practiceDirs: z.array(z.string().trim().min(1)).default([]),
+  /** stdio for a per-client process, http to host one shared instance */
+  transport: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.enum(["stdio", "http"], { error: "Must be one of: stdio, http" }))
+    .default("stdio"),
+  /** Interface the HTTP transport binds to */
+  host: z.string().trim().min(1, "Host cannot be empty").default(DEFAULT_HOST),
+  /** Port the HTTP transport listens on */
+  port: z.coerce
+    .number({ error: "Must be a number" })
+    .int("Must be an integer")
+    .min(0, "Must be between 0 and 65535")
+    .max(65535, "Must be between 0 and 65535")
+    .default(DEFAULT_PORT),
+  /** Host headers the HTTP transport accepts; loopback names when bound to loopback */
+  allowedHosts: z.array(z.string().trim().min(1)).default([]),
+  /** Origin headers the HTTP transport accepts from browsers */
+  allowedOrigins: z.array(z.string().trim().min(1)).default([]),
+  /** Seconds without a request after which an HTTP session is closed */
+  sessionIdleTimeout: z.coerce
+    .number({ error: "Must be a number" })
+    .int("Must be an integer")
+    .positive("Must be a positive number of seconds")
+    .default(DEFAULT_SESSION_IDLE_TIMEOUT),
+  /** Directory of <topic>.yaml overlays that replace, suppress, annotate or add practice sections */
+  overlayDir: z.string().trim().min(1).optional(),
+  /** Reload practice files when they change and notify clients */
+  watch: z.boolean().default(false),
+  /** Practice files larger than this many bytes are refused */
+  maxFileSize: z.coerce
+    .number({ error: "Must be a number" })
+    .int("Must be an integer")
+    .positive("Must be a positive number of bytes")
+    .default(DEFAULT_MAX_FILE_SIZE),
+  /** Lowest level that is logged */
+  logLevel: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.enum(["debug", "info", "warn", "error"], { error: "Must be one of: debug, info, warn, error" }))
+    .default("info"),
+  /** Optional file that log entries are also appended to */
+  logFile: z.string().trim().min(1).optional(),
+  /** Size in bytes at which the log file is rotated */
+  logFileMaxSize: z.coerce
+    .number({ error: "Must be a number" })
+    .int("Must be an integer")
+    .positive("Must be a positive number of bytes")
+    .default(DEFAULT_LOG_FILE_MAX_SIZE),
+  /** Number of rotated log files to keep */
+  logFileMaxFiles: z.coerce
+    .number({ error: "Must be a number" })
+    .int("Must be an integer")
+    .min(0, "Cannot be negative")
+    .default(5),
+  /** Directory the semantic search index is stored in */
+  indexDir: z.string().trim().min(1).optional(),
+  /** Local transformers.js model for semantic search; hashing embeddings when unset */
+  embeddingModel: z.string().trim().min(1).optional(),
+  /** Directories recommend_practices may read package.json files from */
+  projectRoots: z.array(z.string().trim().min(1)).default([]),
+  /** Serve Prometheus metrics on /metrics when using the HTTP transport */
+  metrics: z.boolean().default(false),
+  /** Optional JSON file request metrics are persisted to between runs */
+  metricsFile: z.string().trim().min(1).optional(),
+});
+
+export type ServerConfig = z.infer<typeof configSchema>;
+
+export type TransportMode = ServerConfig["transport"];
+
+/**
+ * Splits a PRACTICE_DIRS or PROJECT_ROOTS value on the platform path delimiter (":" or ";")
+ */
+function parseDirList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(path.delimiter)
+    .map((dir) => dir.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Splits a comma-separated list such as MCP_ALLOWED_HOSTS
+ */
+function parseList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Collects every value passed for a repeatable CLI flag
+ * Supports both `--flag value` and `--flag=value`
+ */
+function getFlagValues(argv: string[], flag: string): string[] {
+  const values: string[] = [];
+  argv.forEach((arg, index) => {
+    if (arg === flag && argv[index + 1] !== undefined) {
+      values.push(argv[index + 1]);
+    } else if (arg.startsWith(`${flag}=`)) {
+      values.push(arg.slice(flag.length + 1));
+    }
+  });
+  return values;
+}
+
+/**
+ * Returns the last value passed for a CLI flag, so later flags override earlier ones
+ */
+function getFlagValue(argv: string[], flag: string): string | undefined {
+  return getFlagValues(argv, flag).at(-1);
+}
+
+/**
+ * Treats empty environment variables as unset, so defaults apply
+ */
+function envValue(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const value = env[name];
+  return value === undefined || value.trim() === "" ? undefined : value;
+}
+
+/**
+ * Parses a boolean environment variable ("1", "true", "yes" or "on")
+ */
+function parseBoolean(value: string | undefined): boolean {
+  return ["1", "true", "yes", "on"].includes((value ?? "").trim().toLowerCase());
+}
+
+/**
+ * Loads the server configuration
+ * `--http` is shorthand for `--transport http`
+ * @param argv - CLI arguments, without the node executable and script path
+ * @param env - Environment variables
+ * @throws ValidationError listing every invalid setting
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+  const result = configSchema.safeParse({
+    practiceDirs: [...parseDirList(env.PRACTICE_DIRS), ...getFlagValues(argv, "--practice-dir")],
+    transport: argv.includes("--http")
+      ? "http"
+      : (getFlagValue(argv, "--transport") ?? envValue(env, "MCP_TRANSPORT")),
+    host: getFlagValue(argv, "--host") ?? envValue(env, "MCP_HOST"),
+    port: getFlagValue(argv, "--port") ?? envValue(env, "MCP_PORT"),
+    allowedHosts: [...parseList(env.MCP_ALLOWED_HOSTS), ...getFlagValues(argv, "--allowed-host")],
+    allowedOrigins: [...parseList(env.MCP_ALLOWED_ORIGINS), ...getFlagValues(argv, "--allowed-origin")],
+    sessionIdleTimeout: getFlagValue(argv, "--session-idle-timeout") ?? envValue(env, "MCP_SESSION_IDLE_TIMEOUT"),
+    overlayDir: getFlagValue(argv, "--overlay-dir") ?? envValue(env, "PRACTICE_OVERLAY_DIR"),
+    watch: argv.includes("--watch") || parseBoolean(env.PRACTICE_WATCH),
+    maxFileSize: getFlagValue(argv, "--max-file-size") ?? envValue(env, "MAX_FILE_SIZE"),
+    logLevel: getFlagValue(argv, "--log-level") ?? envValue(env, "LOG_LEVEL"),
+    logFile: getFlagValue(argv, "--log-file") ?? envValue(env, "LOG_FILE"),
+    logFileMaxSize: envValue(env, "LOG_FILE_MAX_SIZE"),
+    logFileMaxFiles: envValue(env, "LOG_FILE_MAX_FILES"),
+    indexDir: getFlagValue(argv, "--index-dir") ?? envValue(env, "PRACTICE_INDEX_DIR"),
+    embeddingModel: getFlagValue(argv, "--embedding-model") ?? envValue(env, "EMBEDDING_MODEL"),
+    projectRoots: [...parseDirList(env.PROJECT_ROOTS), ...getFlagValues(argv, "--project-root")],
+    metrics: argv.includes("--metrics") || parseBoolean(env.MCP_METRICS),
+    metricsFile: getFlagValue(argv, "--metrics-file") ?? envValue(env, "METRICS_FILE"),
+  });
+
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new ValidationError(`Invalid configuration: ${errors.join(", ")}`);
+  }
+
+  return result.data;
+}
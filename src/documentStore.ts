@@ -0,0 +1,196 @@
+/**
+ * Cached access to practice documents
+ * Parsed documents stay in memory and are re-read when the file's
+ * modification time or size changes, or when its overlay does
+ */
+
+import path from "path";
+import { promises as fs } from "fs";
+import { DEFAULT_MAX_FILE_SIZE } from "./types";
+import { getTopic, getTopicVersion } from "./topics";
+import { applyOverlay, findOverlayFile, readOverlay, OverlayFile, SectionOverride } from "./overlays";
+import { parseDocument, MarkdownDocument } from "./utils/markdown";
+import { stripFrontMatter } from "./utils/frontMatter";
+import { validatePath } from "./utils/paths";
+import {
+  SecurityError,
+  NotFoundError,
+  FileReadError,
+  FileTooLargeError,
+  VersionNotFoundError,
+} from "./utils/errors";
+import { logger } from "./utils/logger";
+
+export interface PracticeDocument {
+  topic: string;
+  /** Version label of the document that was read */
+  version: string;
+  /** Document content without its front matter, with the topic's overlay applied */
+  content: string;
+  /** Sections parsed from the content */
+  document: MarkdownDocument;
+  /** File size in bytes */
+  size: number;
+  mtimeMs: number;
+  /** Sections changed by the topic's overlay; empty without one */
+  overrides: SectionOverride[];
+}
+
+export interface DocumentCacheStats {
+  entries: number;
+  /** Total size of the cached files in bytes */
+  bytes: number;
+  hits: number;
+  misses: number;
+  maxFileSize: number;
+}
+
+interface CacheEntry extends PracticeDocument {
+  filePath: string;
+  overlay: OverlayFile | null;
+}
+
+const cache = new Map<string, CacheEntry>();
+let maxFileSize = DEFAULT_MAX_FILE_SIZE;
+let hits = 0;
+let misses = 0;
+
+/**
+ * Sets the size limit for practice files and drops cached documents
+ */
+export function configureDocumentStore(options: { maxFileSize: number }): void {
+  maxFileSize = options.maxFileSize;
+  cache.clear();
+}
+
+/**
+ * Resolves the file of a topic version, confined to the directory the topic was discovered in
+ * @throws NotFoundError if the topic doesn't exist
+ * @throws VersionNotFoundError if the topic has no such version
+ * @throws SecurityError if path traversal is detected
+ */
+function resolveFile(topic: string, version?: string): { filePath: string; version: string } {
+  const entry = getTopic(topic);
+
+  if (!entry) {
+    logger.warn("Unknown topic requested", { topic });
+    throw new NotFoundError(`Best practice for topic: ${topic}`);
+  }
+
+  const resolved = getTopicVersion(topic, version);
+  if (!resolved) {
+    logger.info("Unknown version requested", { topic, version });
+    throw new VersionNotFoundError(topic, version!);
+  }
+
+  const filePath = path.resolve(entry.root, resolved.fileName);
+
+  // CRITICAL SECURITY CHECK: Verify path is within the topic's root
+  if (!validatePath(entry.root, filePath)) {
+    logger.error("Path traversal attempt detected", {
+      topic,
+      filePath,
+    });
+    throw new SecurityError("Invalid topic path");
+  }
+
+  return { filePath, version: resolved.version };
+}
+
+function sameOverlay(a: OverlayFile | null, b: OverlayFile | null): boolean {
+  if (!a || !b) return a === b;
+  return a.filePath === b.filePath && a.mtimeMs === b.mtimeMs && a.size === b.size;
+}
+
+/**
+ * Returns the parsed document of a topic, reading it only if it changed
+ * Overlays apply to the latest version only; older versions are served as written
+ * @param version - Version label; the main document when omitted or "latest"
+ * @throws SecurityError if path traversal is detected
+ * @throws NotFoundError if the topic or file doesn't exist
+ * @throws VersionNotFoundError if the topic has no such version
+ * @throws FileTooLargeError if the file exceeds the configured size limit
+ * @throws FileReadError for other file system errors
+ */
+export async function loadDocument(topic: string, version?: string): Promise<PracticeDocument> {
+  const resolved = resolveFile(topic, version);
+  const { filePath } = resolved;
+  const cacheKey = `${topic}@${resolved.version}`;
+
+  try {
+    const stats = await fs.stat(filePath);
+
+    if (stats.size > maxFileSize) {
+      logger.warn("Practice file too large", { topic, size: stats.size, maxFileSize });
+      throw new FileTooLargeError(`Best practice file for topic: ${topic}`, stats.size, maxFileSize);
+    }
+
+    const overlay = resolved.version === getTopicVersion(topic)?.version ? await findOverlayFile(topic) : null;
+
+    const cached = cache.get(cacheKey);
+    if (
+      cached &&
+      cached.filePath === filePath &&
+      cached.mtimeMs === stats.mtimeMs &&
+      cached.size === stats.size &&
+      sameOverlay(cached.overlay, overlay)
+    ) {
+      hits++;
+      return cached;
+    }
+
+    misses++;
+    logger.debug("Reading practice file", { topic, version: resolved.version, fileName: path.basename(filePath) });
+    let content = stripFrontMatter(await fs.readFile(filePath, "utf-8"));
+    let overrides: SectionOverride[] = [];
+    if (overlay) {
+      ({ content, overrides } = applyOverlay(content, await readOverlay(overlay, topic), topic));
+    }
+    const entry: CacheEntry = {
+      topic,
+      version: resolved.version,
+      filePath,
+      overlay,
+      content,
+      document: parseDocument(content),
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      overrides,
+    };
+    cache.set(cacheKey, entry);
+    logger.info("Successfully read practice file", { topic });
+    return entry;
+  } catch (error) {
+    if (error instanceof FileTooLargeError) {
+      throw error;
+    }
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      cache.delete(cacheKey);
+      logger.warn("Practice file not found", { topic, filePath });
+      throw new NotFoundError(`Best practice file for topic: ${topic}`);
+    }
+    logger.error("Failed to read practice file", error);
+    throw new FileReadError(
+      `Failed to read best practice file: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+/**
+ * Drops every cached document
+ */
+export function clearDocumentCache(): void {
+  cache.clear();
+}
+
+/**
+ * Returns the cache size and hit counters
+ */
+export function getDocumentCacheStats(): DocumentCacheStats {
+  let bytes = 0;
+  for (const entry of cache.values()) bytes += entry.size;
+
+  return { entries: cache.size, bytes, hits, misses, maxFileSize };
+}
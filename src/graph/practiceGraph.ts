@@ -0,0 +1,291 @@
+/**
+ * Cross-reference graph between the sections of all practice documents
+ * Sections are linked when one points at another with a practice:// URI or
+ * names another topic, and when sections of different topics share distinctive
+ * terms. Edges between topics that declare each other as related are marked
+ */
+
+import { getTopics } from "../topics";
+import { getSearchIndex, tokenize, IndexedSection, SearchIndex } from "../search/searchIndex";
+import { getSectionUri } from "../resources/practices";
+import { logger } from "../utils/logger";
+
+export type EdgeKind = "link" | "mention" | "shared-terms" | "related-topic";
+
+export interface GraphNode {
+  /** `<topic>/<slug>` */
+  id: string;
+  topic: string;
+  number: string | null;
+  title: string;
+  slug: string;
+  uri: string;
+}
+
+export interface GraphEdge {
+  /** Section that links to or mentions the target; either end for shared terms */
+  source: string;
+  target: string;
+  kinds: EdgeKind[];
+  /** Distinctive terms both sections use, most significant first */
+  terms: string[];
+  /** Strength of the connection; links count most, then mentions, then shared terms */
+  score: number;
+}
+
+export interface GraphTopic {
+  topic: string;
+  name: string;
+  /** Topics declared in the front matter's `related` field */
+  related: string[];
+}
+
+export interface PracticeGraph {
+  topics: GraphTopic[];
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface RelatedSection extends GraphNode {
+  kinds: EdgeKind[];
+  terms: string[];
+  score: number;
+}
+
+/** Lowest cosine similarity for a shared-terms edge */
+const MIN_SIMILARITY = 0.2;
+/** Lower threshold between topics that declare each other as related */
+const MIN_RELATED_SIMILARITY = 0.15;
+/** A single shared term is too weak a connection */
+const MIN_SHARED_TERMS = 2;
+/** A mentioned topic's best matching section must share at least this much with the mentioning one */
+const MIN_MENTION_SIMILARITY = 0.05;
+/** Shared-terms edges kept per section, strongest first */
+const MAX_TERM_NEIGHBOURS = 3;
+const MAX_EDGE_TERMS = 5;
+const LINK_WEIGHT = 1;
+const MENTION_WEIGHT = 0.25;
+const RELATED_TOPIC_WEIGHT = 0.1;
+
+const PRACTICE_LINK_PATTERN = /practice:\/\/([a-z0-9-]+)(?:\/([^\s)\]>"'`]+))?/g;
+
+function nodeId(section: IndexedSection): string {
+  return `${section.topic}/${section.slug}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * TF-IDF weights of a section's terms, normalized to unit length
+ */
+function termWeights(index: SearchIndex, section: IndexedSection): Map<string, number> {
+  const total = index.sections.length;
+  const weights = new Map<string, number>();
+  let norm = 0;
+
+  for (const [term, frequency] of section.termFrequencies) {
+    const weight = frequency * Math.log(total / (index.documentFrequencies.get(term) ?? 1));
+    if (weight <= 0) continue;
+    weights.set(term, weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm);
+  for (const [term, weight] of weights) weights.set(term, weight / norm);
+  return weights;
+}
+
+/**
+ * Maps each term of a section to the first word it was derived from, for display
+ */
+function surfaceForms(section: IndexedSection): Map<string, string> {
+  const forms = new Map<string, string>();
+  for (const word of `${section.title}\n${section.text}`.toLowerCase().split(/[^a-z0-9]+/)) {
+    const [term] = tokenize(word);
+    if (term && !forms.has(term)) forms.set(term, word);
+  }
+  return forms;
+}
+
+/**
+ * Cosine similarity of two sections and the terms contributing most to it
+ */
+function compareSections(a: Map<string, number>, b: Map<string, number>): { similarity: number; terms: string[] } {
+  const shared: [string, number][] = [];
+  let similarity = 0;
+
+  for (const [term, weight] of a) {
+    const other = b.get(term);
+    if (other === undefined) continue;
+    similarity += weight * other;
+    shared.push([term, weight * other]);
+  }
+
+  return {
+    similarity,
+    terms: shared.sort((x, y) => y[1] - x[1]).map(([term]) => term),
+  };
+}
+
+/**
+ * Builds the graph from a search index and the topics' names and declared relations
+ */
+export function createPracticeGraph(index: SearchIndex, topics: GraphTopic[]): PracticeGraph {
+  const { sections } = index;
+  const edges = new Map<string, GraphEdge>();
+  const topicNames = new Set(topics.map(({ topic }) => topic));
+  const related = (a: string, b: string) =>
+    topics.some(
+      ({ topic, related }) => (topic === a && related.includes(b)) || (topic === b && related.includes(a))
+    );
+
+  const weights = sections.map((section) => termWeights(index, section));
+  const forms = sections.map(surfaceForms);
+
+  const addEdge = (from: number, to: number, kind: EdgeKind, terms: string[] = [], similarity = 0) => {
+    if (from === to) return;
+    const [source, target] = [nodeId(sections[from]), nodeId(sections[to])];
+    const key = source < target ? `${source} ${target}` : `${target} ${source}`;
+    const edge = edges.get(key) ?? { source, target, kinds: [], terms: [], score: 0 };
+
+    if (!edge.kinds.includes(kind)) edge.kinds.push(kind);
+    for (const term of terms) {
+      const form = forms[from].get(term) ?? term;
+      if (!edge.terms.includes(form) && edge.terms.length < MAX_EDGE_TERMS) edge.terms.push(form);
+    }
+    edge.score = Math.max(edge.score, similarity);
+    edges.set(key, edge);
+  };
+
+  // The section of a topic that best matches another section, for links and
+  // mentions that name the topic but not a section
+  const bestMatch = (from: number, topic: string) => {
+    let best: { to: number; similarity: number; terms: string[] } | null = null;
+    for (const [to, section] of sections.entries()) {
+      if (section.topic !== topic) continue;
+      const comparison = compareSections(weights[from], weights[to]);
+      if (!best || comparison.similarity > best.similarity) best = { to, ...comparison };
+    }
+    return best;
+  };
+
+  const mentionPatterns = topics.map(({ topic, name }) => ({
+    topic,
+    pattern: new RegExp(`(?<![\\w.])${escapeRegExp(name)}(?![\\w])`),
+  }));
+
+  sections.forEach((section, from) => {
+    for (const match of section.text.matchAll(PRACTICE_LINK_PATTERN)) {
+      const [, topic, selector] = match;
+      if (!topicNames.has(topic)) continue;
+
+      let decoded = selector;
+      try {
+        decoded = selector && decodeURIComponent(selector);
+      } catch {
+        // Malformed escapes are matched as written
+      }
+      const to = decoded
+        ? sections.findIndex((other) => other.topic === topic && (other.slug === decoded || other.number === decoded))
+        : (bestMatch(from, topic)?.to ?? -1);
+      if (to < 0) continue;
+      const { similarity, terms } = compareSections(weights[from], weights[to]);
+      addEdge(from, to, "link", terms, similarity);
+    }
+
+    for (const { topic, pattern } of mentionPatterns) {
+      if (topic === section.topic || !pattern.test(section.text)) continue;
+      const match = bestMatch(from, topic);
+      if (match && match.similarity >= MIN_MENTION_SIMILARITY) {
+        addEdge(from, match.to, "mention", match.terms, match.similarity);
+      }
+    }
+
+    const neighbours = sections
+      .map((other, to) => ({ to, ...compareSections(weights[from], weights[to]) }))
+      .filter(({ to, similarity, terms }) => {
+        const other = sections[to];
+        if (other.topic === section.topic || terms.length < MIN_SHARED_TERMS) return false;
+        return similarity >= (related(section.topic, other.topic) ? MIN_RELATED_SIMILARITY : MIN_SIMILARITY);
+      })
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_TERM_NEIGHBOURS);
+
+    for (const { to, similarity, terms } of neighbours) {
+      addEdge(from, to, "shared-terms", terms, similarity);
+    }
+  });
+
+  const nodeTopic = (id: string) => id.slice(0, id.indexOf("/"));
+  const result = [...edges.values()].map((edge) => {
+    if (related(nodeTopic(edge.source), nodeTopic(edge.target))) edge.kinds.push("related-topic");
+    const weight =
+      (edge.kinds.includes("link") ? LINK_WEIGHT : 0) +
+      (edge.kinds.includes("mention") ? MENTION_WEIGHT : 0) +
+      (edge.kinds.includes("related-topic") ? RELATED_TOPIC_WEIGHT : 0);
+    return { ...edge, score: Math.round((edge.score + weight) * 1000) / 1000 };
+  });
+
+  return {
+    topics,
+    nodes: sections.map((section) => ({
+      id: nodeId(section),
+      topic: section.topic,
+      number: section.number,
+      title: section.title,
+      slug: section.slug,
+      uri: getSectionUri(section.topic, section.slug),
+    })),
+    edges: result.sort((a, b) => b.score - a.score || a.source.localeCompare(b.source)),
+  };
+}
+
+/**
+ * Returns the sections connected to a section, strongest connection first
+ */
+export function findRelatedSections(graph: PracticeGraph, id: string, limit?: number): RelatedSection[] {
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+
+  return graph.edges
+    .filter((edge) => edge.source === id || edge.target === id)
+    .map((edge) => {
+      const node = nodes.get(edge.source === id ? edge.target : edge.source)!;
+      return { ...node, kinds: edge.kinds, terms: edge.terms, score: edge.score };
+    })
+    .slice(0, limit);
+}
+
+let graphPromise: Promise<PracticeGraph> | null = null;
+
+/**
+ * Returns the shared graph, building it from the search index on first use
+ */
+export function getPracticeGraph(): Promise<PracticeGraph> {
+  if (!graphPromise) {
+    graphPromise = getSearchIndex()
+      .then((index) => {
+        const topics = getTopics().map(({ name, metadata }) => ({
+          topic: name,
+          name: metadata.name,
+          related: metadata.related,
+        }));
+        const graph = createPracticeGraph(index, topics);
+        logger.info("Practice graph built", { nodes: graph.nodes.length, edges: graph.edges.length });
+        return graph;
+      })
+      .catch((error) => {
+        graphPromise = null;
+        throw error;
+      });
+  }
+  return graphPromise;
+}
+
+/**
+ * Drops the shared graph so the next request rebuilds it
+ */
+export function resetPracticeGraph(): void {
+  graphPromise = null;
+}
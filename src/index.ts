@@ -1,22 +1,116 @@
 /**
  * Entry point for the Best Practices MCP Server
- * Initializes the server and connects it to stdio transport
+ * Initializes the server and connects it to the stdio or HTTP transport
  */
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createServer } from "./server";
-import { logger } from "./utils/logger";
+import { loadConfig, ServerConfig } from "./config";
+import { configurePracticeDirs } from "./topics";
+import { configureDocumentStore } from "./documentStore";
+import { configureProjectRoots } from "./projects";
+import { configureOverlayDir } from "./overlays";
+import { configureEmbedder } from "./search/embeddings";
+import { configureSemanticIndex } from "./search/semanticIndex";
+import { getSearchIndex } from "./search/searchIndex";
+import { startHttpServer } from "./transports/http";
+import { watchPractices } from "./watcher";
+import { loadMetrics, persistMetrics } from "./metrics";
+import { logger, setLogLevel, addLogSink, createFileSink } from "./utils/logger";
+
+/**
+ * Connects a single server to stdin/stdout
+ * @returns A function that closes the server
+ */
+async function startStdio(): Promise<() => Promise<void>> {
+  const server = createServer();
+  await server.connect(new StdioServerTransport());
+  logger.info("✅ Best Practices MCP server running on stdio");
+  return () => server.close();
+}
+
+/**
+ * Serves sessions over HTTP
+ * @returns A function that closes every session and the listener
+ */
+async function startHttp(config: ServerConfig): Promise<() => Promise<void>> {
+  const handle = await startHttpServer({
+    host: config.host,
+    port: config.port,
+    createServer,
+    metrics: config.metrics,
+    allowedHosts: config.allowedHosts,
+    allowedOrigins: config.allowedOrigins,
+    sessionIdleMs: config.sessionIdleTimeout * 1000,
+  });
+  logger.info(`✅ Best Practices MCP server running on http://${handle.host}:${handle.port}/mcp`);
+  return handle.close;
+}
+
+/**
+ * Closes the server on SIGINT/SIGTERM, exiting once in-flight work is done
+ */
+function registerShutdown(close: () => Promise<void>): void {
+  let shuttingDown = false;
+
+  const shutdown = (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info("Shutting down", { signal });
+
+    close()
+      .then(() => process.exit(0))
+      .catch((err) => {
+        logger.error("Error during shutdown", err);
+        process.exit(1);
+      });
+  };
+
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+}
 
 /**
  * Main function to start the server
  */
 async function main(): Promise<void> {
   try {
-    const server = createServer();
-    const transport = new StdioServerTransport();
+    const config = loadConfig();
+    setLogLevel(config.logLevel);
+    if (config.logFile) {
+      addLogSink(
+        createFileSink(config.logFile, {
+          maxBytes: config.logFileMaxSize,
+          maxFiles: config.logFileMaxFiles,
+        })
+      );
+    }
+
+    configurePracticeDirs(config.practiceDirs);
+    configureDocumentStore({ maxFileSize: config.maxFileSize });
+    configureProjectRoots(config.projectRoots);
+    configureOverlayDir(config.overlayDir);
+    configureEmbedder(config.embeddingModel);
+    configureSemanticIndex(config.indexDir);
+
+    if (config.metricsFile) {
+      await loadMetrics(config.metricsFile);
+    }
+    const stopMetrics = config.metricsFile ? persistMetrics(config.metricsFile) : async () => {};
+
+    // Build the search index up front so the first query is fast; a failure is retried on first use
+    await getSearchIndex().catch((error) =>
+      logger.warn("Could not build the search index", { error: String(error) })
+    );
+
+    const close = config.transport === "http" ? await startHttp(config) : await startStdio();
+    const stopWatching = config.watch ? watchPractices() : () => {};
 
-    await server.connect(transport);
-    logger.info("✅ Best Practices MCP server running on stdio");
+    registerShutdown(async () => {
+      stopWatching();
+      await close();
+      await stopMetrics();
+    });
   } catch (err) {
     logger.error("Fatal error starting server", err);
     process.exit(1);
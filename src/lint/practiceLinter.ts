@@ -0,0 +1,393 @@
+/**
+ * Linter for practice documents
+ * Checks the structure the section parser, resources and tools rely on:
+ * front matter, heading hierarchy, code fences, section slugs and references
+ * between sections and topics
+ */
+
+import path from "path";
+import { readFileSync } from "fs";
+import { practiceMetadataSchema } from "../metadata";
+import { BUILTIN_DATA_DIR, getTopics } from "../topics";
+import { TOPIC_TO_FILE } from "../types";
+import { parseFrontMatter } from "../utils/frontMatter";
+import {
+  extractCodeBlocks,
+  findSection,
+  flattenSections,
+  MarkdownDocument,
+  parseDocument,
+  slugify,
+} from "../utils/markdown";
+
+export type LintRule =
+  | "missing-file"
+  | "front-matter"
+  | "heading-hierarchy"
+  | "code-fence"
+  | "fence-language"
+  | "duplicate-slug"
+  | "cross-reference";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintIssue {
+  /** Path of the practice file */
+  file: string;
+  /** 1-based line in the file, absent for issues about the file as a whole */
+  line?: number;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+}
+
+export interface LintOptions {
+  /** Path reported in issues */
+  file: string;
+  /**
+   * Main documents of every known topic, to resolve `related` topics and
+   * practice:// links. Cross-topic references aren't checked without it.
+   */
+  documents?: ReadonlyMap<string, MarkdownDocument>;
+}
+
+/**
+ * Front matter fields every practice document must declare
+ */
+export const REQUIRED_FRONT_MATTER = ["name", "description", "version", "lastReviewed"] as const;
+
+const FENCE_PATTERN = /^\s*(```|~~~)(.*)$/;
+const ATX_PATTERN = /^(#{1,6})\s/;
+const SECTION_REFERENCE_PATTERN =
+  /\bsections?\s+(\d+(?:\.\d+)*(?:(?:\s*,\s*|\s*&\s*|\s+and\s+|\s+or\s+)\d+(?:\.\d+)*)*)/gi;
+const ANCHOR_LINK_PATTERN = /\]\(#([^)\s]+)\)/g;
+const PRACTICE_URI_PATTERN = /practice:\/\/([a-z0-9-]+)(?:\/([^\s)`'"<>]*[^\s)`'"<>.,;:!?]))?/g;
+
+/**
+ * Returns the 1-based line of a top-level front matter key, or 1 if it isn't there
+ */
+function findKeyLine(lines: string[], key: string): number {
+  const index = lines.findIndex((line) => line.startsWith(`${key}:`));
+  return index === -1 ? 1 : index + 1;
+}
+
+function lintFrontMatter(
+  markdown: string,
+  options: LintOptions,
+  report: (issue: Omit<LintIssue, "file">) => void
+): { body: string; offset: number } {
+  let frontMatter;
+  try {
+    frontMatter = parseFrontMatter(markdown);
+  } catch (error) {
+    report({
+      line: 1,
+      rule: "front-matter",
+      severity: "error",
+      message: `Invalid front matter: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return { body: markdown, offset: 0 };
+  }
+
+  const { data, body, bodyStartLine } = frontMatter;
+  const lines = markdown.split(/\r?\n/);
+
+  if (bodyStartLine === 1) {
+    report({
+      line: 1,
+      rule: "front-matter",
+      severity: "error",
+      message: `Missing front matter; declare ${REQUIRED_FRONT_MATTER.join(", ")}`,
+    });
+    return { body, offset: 0 };
+  }
+
+  for (const key of REQUIRED_FRONT_MATTER) {
+    if (data[key] === undefined || data[key] === null) {
+      report({ line: 1, rule: "front-matter", severity: "error", message: `Missing front matter field "${key}"` });
+    }
+  }
+
+  const result = practiceMetadataSchema.safeParse(data);
+  for (const issue of result.success ? [] : result.error.issues) {
+    const key = String(issue.path[0] ?? "");
+    report({
+      line: findKeyLine(lines, key),
+      rule: "front-matter",
+      severity: "error",
+      message: `Invalid front matter field "${issue.path.join(".")}": ${issue.message}`,
+    });
+  }
+
+  if (result.success && options.documents) {
+    for (const topic of result.data.related) {
+      if (!options.documents.has(topic)) {
+        report({
+          line: findKeyLine(lines, "related"),
+          rule: "cross-reference",
+          severity: "error",
+          message: `Related topic "${topic}" does not exist`,
+        });
+      }
+    }
+  }
+
+  return { body, offset: bodyStartLine - 1 };
+}
+
+/**
+ * Checks that fences are balanced and that opening fences name a language
+ * Fences toggle like in the section parser, so an unclosed one is reported where it opens
+ */
+function lintFences(lines: string[], report: (line: number, rule: LintRule, message: string) => void): void {
+  let open: { line: number; marker: string } | null = null;
+
+  lines.forEach((text, index) => {
+    const match = text.match(FENCE_PATTERN);
+    if (!match) return;
+
+    const [, marker, info] = match;
+    if (!open) {
+      if (!info.trim()) {
+        report(index + 1, "fence-language", "Code fence has no language tag");
+      }
+      open = { line: index + 1, marker };
+      return;
+    }
+
+    if (marker !== open.marker) {
+      report(index + 1, "code-fence", `Fence opened with ${open.marker} on line ${open.line} is closed with ${marker}`);
+    } else if (info.trim()) {
+      report(
+        index + 1,
+        "code-fence",
+        `Closing fence has a language tag; is the fence opened on line ${open.line} missing its closing ${marker}?`
+      );
+    }
+    open = null;
+  });
+
+  if (open) {
+    const { line, marker } = open;
+    report(line, "code-fence", `Code fence is never closed with ${marker}`);
+  }
+}
+
+/**
+ * Checks heading levels, section numbering and slug uniqueness
+ */
+function lintHeadings(
+  document: MarkdownDocument,
+  report: (line: number, rule: LintRule, message: string, severity?: LintSeverity) => void
+): void {
+  const sections = flattenSections(document.sections);
+  const numbers = new Map<string, number>();
+  const lastChild = new Map<string, number>();
+  const slugs = new Map<string, number>();
+  // Difference between the ATX depth and the number depth of numbered headings
+  let numberOffset: number | undefined;
+  let previousDepth = document.title ? 1 : null;
+
+  for (const section of sections) {
+    const label = section.number ? `${section.number} ${section.title}` : section.title;
+    const atx = document.lines[section.line - 1].match(ATX_PATTERN);
+    const depth = atx ? atx[1].length : null;
+
+    // Bare headings take their level from their number, so only ATX levels can jump
+    if (depth !== null) {
+      if (previousDepth !== null && depth > previousDepth + 1) {
+        report(section.line, "heading-hierarchy", `Heading "${label}" jumps from h${previousDepth} to h${depth}`);
+      }
+      previousDepth = depth;
+    }
+
+    if (section.number) {
+      const parts = section.number.split(".");
+      const parent = parts.slice(0, -1).join(".");
+      if (parent && !numbers.has(parent)) {
+        report(section.line, "heading-hierarchy", `Section ${section.number} has no parent section ${parent}`);
+      }
+
+      const firstLine = numbers.get(section.number);
+      if (firstLine !== undefined) {
+        report(section.line, "heading-hierarchy", `Section number ${section.number} is already used on line ${firstLine}`);
+      } else {
+        numbers.set(section.number, section.line);
+        const position = Number(parts[parts.length - 1]);
+        const previous = lastChild.get(parent);
+        // Numbering may start at 0 or 1
+        if (previous === undefined ? position > 1 : position !== previous + 1) {
+          const next = previous === undefined ? 1 : previous + 1;
+          const expected = parent ? `${parent}.${next}` : String(next);
+          report(section.line, "heading-hierarchy", `Section ${section.number} should be numbered ${expected}`, "warning");
+        }
+        lastChild.set(parent, position);
+      }
+
+      if (depth !== null) {
+        numberOffset ??= depth - parts.length;
+        if (depth !== parts.length + numberOffset) {
+          report(
+            section.line,
+            "heading-hierarchy",
+            `Section ${section.number} is an h${depth} but its number puts it at h${parts.length + numberOffset}`
+          );
+        }
+      }
+    }
+
+    // Duplicate titles get numbered slugs, which break as soon as sections move
+    const slug = slugify(section.title);
+    const slugLine = slugs.get(slug);
+    if (slug && slugLine !== undefined) {
+      report(section.line, "duplicate-slug", `Section slug "${slug}" is already used on line ${slugLine}`);
+    } else if (slug) {
+      slugs.set(slug, section.line);
+    }
+  }
+}
+
+/**
+ * Checks "section N" mentions, #anchor links and practice:// links outside code fences
+ */
+function lintReferences(
+  document: MarkdownDocument,
+  options: LintOptions,
+  report: (line: number, rule: LintRule, message: string) => void
+): void {
+  const sections = flattenSections(document.sections);
+  const hasNumber = (number: string) => sections.some((section) => section.number === number);
+  let inFence = false;
+
+  document.lines.forEach((text, index) => {
+    if (FENCE_PATTERN.test(text)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+    const line = index + 1;
+
+    for (const match of text.matchAll(SECTION_REFERENCE_PATTERN)) {
+      for (const number of match[1].match(/\d+(?:\.\d+)*/g) ?? []) {
+        if (!hasNumber(number)) {
+          report(line, "cross-reference", `Reference to section ${number}, which does not exist`);
+        }
+      }
+    }
+
+    for (const [, anchor] of text.matchAll(ANCHOR_LINK_PATTERN)) {
+      if (!sections.some((section) => section.slug === anchor)) {
+        report(line, "cross-reference", `Link to #${anchor}, which matches no section slug`);
+      }
+    }
+
+    if (!options.documents) return;
+    for (const [, topic, rest] of text.matchAll(PRACTICE_URI_PATTERN)) {
+      const target = options.documents.get(topic);
+      if (!target) {
+        report(line, "cross-reference", `Link to practice://${topic}, which is not a known topic`);
+        continue;
+      }
+      if (rest === undefined) continue;
+
+      const example = rest.match(/^examples\/(\d+)$/);
+      if (example) {
+        if (Number(example[1]) < 1 || Number(example[1]) > extractCodeBlocks(target).length) {
+          report(line, "cross-reference", `Link to practice://${topic}/${rest}, which is not a code example`);
+        }
+      } else if (!findSection(target, decodeURIComponent(rest))) {
+        report(line, "cross-reference", `Link to practice://${topic}/${rest}, which matches no section`);
+      }
+    }
+  });
+}
+
+/**
+ * Lints the contents of a single practice document
+ * Line numbers refer to the file, including its front matter
+ */
+export function lintDocument(markdown: string, options: LintOptions): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const { body, offset } = lintFrontMatter(markdown, options, (issue) =>
+    issues.push({ file: options.file, ...issue })
+  );
+
+  const report = (line: number, rule: LintRule, message: string, severity: LintSeverity = "error") => {
+    issues.push({ file: options.file, line, rule, severity, message });
+  };
+
+  // Blank lines in place of the front matter keep line numbers those of the file
+  const document = parseDocument("\n".repeat(offset) + body);
+  lintFences(document.lines, report);
+  lintHeadings(document, report);
+  lintReferences(document, options, report);
+
+  return issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Lints every version of every registered topic
+ * Also reports built-in topics whose file in TOPIC_TO_FILE is missing
+ */
+export function lintPractices(): { files: number; issues: LintIssue[] } {
+  const issues: LintIssue[] = [];
+  const files: { topic: string; filePath: string; latest: boolean; content: string }[] = [];
+
+  for (const [topic, fileName] of Object.entries(TOPIC_TO_FILE)) {
+    const filePath = path.join(BUILTIN_DATA_DIR, fileName);
+    try {
+      readFileSync(filePath);
+    } catch {
+      issues.push({
+        file: filePath,
+        rule: "missing-file",
+        severity: "error",
+        message: `File of built-in topic "${topic}" does not exist`,
+      });
+    }
+  }
+
+  for (const entry of getTopics()) {
+    for (const { fileName, latest } of entry.versions) {
+      const filePath = path.join(entry.root, fileName);
+      try {
+        files.push({ topic: entry.name, filePath, latest, content: readFileSync(filePath, "utf-8") });
+      } catch (error) {
+        // Missing built-in files were reported above
+        if (entry.builtin && latest && (error as NodeJS.ErrnoException).code === "ENOENT") continue;
+        issues.push({
+          file: filePath,
+          rule: "missing-file",
+          severity: "error",
+          message: `Cannot read file: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }
+  }
+
+  const documents = new Map<string, MarkdownDocument>();
+  for (const { topic, latest, content } of files) {
+    if (!latest) continue;
+    try {
+      documents.set(topic, parseDocument(parseFrontMatter(content).body));
+    } catch {
+      // Reported as invalid front matter when the file is linted
+      documents.set(topic, parseDocument(content));
+    }
+  }
+
+  for (const { filePath, content } of files) {
+    issues.push(...lintDocument(content, { file: filePath, documents }));
+  }
+
+  return { files: files.length, issues };
+}
+
+/**
+ * Formats an issue as "file:line  severity  message  (rule)"
+ */
+export function formatLintIssue(issue: LintIssue, cwd: string = process.cwd()): string {
+  const file = path.relative(cwd, issue.file) || issue.file;
+  const location = issue.line === undefined ? file : `${file}:${issue.line}`;
+  return `${location}  ${issue.severity}  ${issue.message}  (${issue.rule})`;
+}
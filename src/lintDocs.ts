@@ -0,0 +1,36 @@
+/**
+ * CLI entry point that lints the built-in practice documents and those in
+ * the configured practice directories (PRACTICE_DIRS / --practice-dir)
+ * Exits with status 1 if any document has errors
+ */
+
+import { loadConfig } from "./config";
+import { configurePracticeDirs } from "./topics";
+import { formatLintIssue, lintPractices } from "./lint/practiceLinter";
+import { setLogLevel } from "./utils/logger";
+
+function main(): void {
+  const config = loadConfig();
+  // Discovery warnings would repeat what the linter reports
+  setLogLevel("error");
+  configurePracticeDirs(config.practiceDirs);
+
+  const { files, issues } = lintPractices();
+  for (const issue of issues) {
+    process.stdout.write(`${formatLintIssue(issue)}\n`);
+  }
+
+  const errors = issues.filter(({ severity }) => severity === "error").length;
+  const warnings = issues.length - errors;
+  process.stdout.write(
+    `${issues.length > 0 ? "\n" : ""}${files} files checked: ${errors} errors, ${warnings} warnings\n`
+  );
+  process.exitCode = errors > 0 ? 1 : 0;
+}
+
+try {
+  main();
+} catch (error) {
+  process.stderr.write(`lint-docs failed: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,102 @@
+/**
+ * Practice document metadata taken from YAML front matter
+ */
+
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { parseFrontMatter } from "./utils/frontMatter";
+import { logger } from "./utils/logger";
+
+/**
+ * Schema for the front matter of a practice document
+ */
+export const practiceMetadataSchema = z.object({
+  name: z.string().trim().min(1, "Name cannot be empty").max(100, "Name too long").optional(),
+  description: z
+    .string()
+    .trim()
+    .min(1, "Description cannot be empty")
+    .max(500, "Description too long")
+    .optional(),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  version: z
+    .union([z.string(), z.number()])
+    .transform((value) => String(value))
+    .optional(),
+  lastReviewed: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "lastReviewed must be a YYYY-MM-DD date")
+    .optional(),
+  related: z.array(z.string().trim().toLowerCase()).default([]),
+  /** Library version or variant the main document targets, e.g. "v5" or "app-router" */
+  libraryVersion: z
+    .union([z.string(), z.number()])
+    .transform((value) => String(value).trim().toLowerCase())
+    .pipe(z.string().regex(/^[a-z0-9][a-z0-9.-]{0,29}$/, "libraryVersion must be a short version label"))
+    .optional(),
+});
+
+export interface TopicMetadata {
+  name: string;
+  description: string;
+  tags: string[];
+  version?: string;
+  lastReviewed?: string;
+  related: string[];
+  libraryVersion?: string;
+}
+
+/**
+ * Turns a topic name into a display name, e.g. "graphql-api" -> "Graphql Api"
+ */
+function titleCase(topic: string): string {
+  return topic
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * Validates raw front matter and fills in defaults derived from the topic name
+ * Invalid front matter is logged and replaced by the defaults
+ */
+export function resolveMetadata(topic: string, data: Record<string, unknown>): TopicMetadata {
+  const result = practiceMetadataSchema.safeParse(data);
+
+  if (!result.success) {
+    logger.warn("Invalid front matter, using defaults", {
+      topic,
+      errors: result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+    });
+  }
+
+  const parsed = result.success ? result.data : { tags: [], related: [] };
+  const name = parsed.name ?? titleCase(topic);
+
+  return {
+    name,
+    description: parsed.description ?? `Best practices for ${name}`,
+    tags: parsed.tags,
+    version: parsed.version,
+    lastReviewed: parsed.lastReviewed,
+    related: parsed.related.filter((related) => related !== topic),
+    libraryVersion: parsed.libraryVersion,
+  };
+}
+
+/**
+ * Reads the metadata of a practice file synchronously
+ * Used while discovering topics, before any request is served
+ */
+export function readTopicMetadata(topic: string, filePath: string): TopicMetadata {
+  try {
+    const { data } = parseFrontMatter(readFileSync(filePath, "utf-8"));
+    return resolveMetadata(topic, data);
+  } catch (error) {
+    logger.warn("Could not read front matter, using defaults", {
+      topic,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return resolveMetadata(topic, {});
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Request metrics and usage analytics
+ * Counts requests, latencies and error classes per operation and topic so docs
+ * owners can see which practices agents actually use
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import { getDocumentCacheStats } from "./documentStore";
+import { logger } from "./utils/logger";
+
+/**
+ * Upper bounds of the latency histogram buckets, in milliseconds
+ */
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500];
+
+const operationStatsSchema = z.object({
+  count: z.number().int().nonnegative(),
+  totalMs: z.number().nonnegative(),
+  maxMs: z.number().nonnegative(),
+  /** Requests per latency bucket, plus one for slower requests */
+  buckets: z.array(z.number().int().nonnegative()).length(LATENCY_BUCKETS_MS.length + 1),
+  /** Failed requests by error class */
+  errors: z.record(z.string(), z.number().int().nonnegative()),
+});
+
+const topicStatsSchema = z.object({
+  count: z.number().int().nonnegative(),
+  /** Successful requests by section selector */
+  sections: z.record(z.string(), z.number().int().nonnegative()),
+  errors: z.record(z.string(), z.number().int().nonnegative()),
+});
+
+/**
+ * Schema for persisted metrics
+ */
+export const metricsSnapshotSchema = z.object({
+  /** When recording started, across restarts */
+  since: z.string(),
+  operations: z.record(z.string(), operationStatsSchema),
+  topics: z.record(z.string(), topicStatsSchema),
+});
+
+export type OperationStats = z.infer<typeof operationStatsSchema>;
+export type TopicStats = z.infer<typeof topicStatsSchema>;
+export type MetricsSnapshot = z.infer<typeof metricsSnapshotSchema>;
+
+export interface RequestRecord {
+  /** e.g. "tool:get_best_practice" or "resource:section" */
+  operation: string;
+  /** Only known topics should be passed, to keep label cardinality bounded */
+  topic?: string;
+  /** Slug of an existing section rather than the selector as given, for the same reason */
+  section?: string;
+  durationMs: number;
+  /** Error class name, if the request failed */
+  error?: string;
+}
+
+const startedAt = Date.now();
+let metrics: MetricsSnapshot = emptySnapshot();
+
+function emptySnapshot(): MetricsSnapshot {
+  return { since: new Date().toISOString(), operations: {}, topics: {} };
+}
+
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Names the class of an error for metrics, e.g. "NotFoundError" or "ZodError"
+ */
+export function errorClass(error: unknown): string {
+  if (error instanceof z.ZodError) return "ZodError";
+  if (error instanceof Error) return error.constructor.name;
+  return "UnknownError";
+}
+
+/**
+ * Records a handled request
+ */
+export function recordRequest(record: RequestRecord): void {
+  const operation = (metrics.operations[record.operation] ??= {
+    count: 0,
+    totalMs: 0,
+    maxMs: 0,
+    buckets: new Array(LATENCY_BUCKETS_MS.length + 1).fill(0),
+    errors: {},
+  });
+
+  operation.count++;
+  operation.totalMs += record.durationMs;
+  operation.maxMs = Math.max(operation.maxMs, record.durationMs);
+  const bucket = LATENCY_BUCKETS_MS.findIndex((bound) => record.durationMs <= bound);
+  operation.buckets[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+  if (record.error) increment(operation.errors, record.error);
+
+  if (record.topic) {
+    const topic = (metrics.topics[record.topic] ??= { count: 0, sections: {}, errors: {} });
+    topic.count++;
+    if (record.error) increment(topic.errors, record.error);
+    else if (record.section) increment(topic.sections, record.section);
+  }
+}
+
+/**
+ * Times an async operation and records it, including the class of any error thrown
+ */
+export async function measure<T>(
+  record: Omit<RequestRecord, "durationMs" | "error">,
+  operation: () => Promise<T>
+): Promise<T> {
+  const started = performance.now();
+  try {
+    const result = await operation();
+    recordRequest({ ...record, durationMs: performance.now() - started });
+    return result;
+  } catch (error) {
+    recordRequest({ ...record, durationMs: performance.now() - started, error: errorClass(error) });
+    throw error;
+  }
+}
+
+/**
+ * Returns a copy of the recorded metrics
+ */
+export function getMetrics(): MetricsSnapshot {
+  return structuredClone(metrics);
+}
+
+/**
+ * Seconds since this process started
+ */
+export function getUptimeSeconds(): number {
+  return Math.round((Date.now() - startedAt) / 1000);
+}
+
+/**
+ * Drops all recorded metrics
+ */
+export function resetMetrics(): void {
+  metrics = emptySnapshot();
+}
+
+/**
+ * Escapes a Prometheus label value
+ */
+function label(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Renders the metrics in the Prometheus text exposition format
+ */
+export function formatPrometheus(): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string) =>
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  const operations = Object.entries(metrics.operations);
+  const topics = Object.entries(metrics.topics);
+
+  metric("mcp_requests_total", "counter", "Requests handled, by operation");
+  for (const [name, stats] of operations) {
+    lines.push(`mcp_requests_total{operation="${label(name)}"} ${stats.count}`);
+  }
+
+  metric("mcp_request_errors_total", "counter", "Failed requests, by operation and error class");
+  for (const [name, stats] of operations) {
+    for (const [error, count] of Object.entries(stats.errors)) {
+      lines.push(`mcp_request_errors_total{operation="${label(name)}",error="${label(error)}"} ${count}`);
+    }
+  }
+
+  metric("mcp_request_duration_seconds", "histogram", "Request latency, by operation");
+  for (const [name, stats] of operations) {
+    let cumulative = 0;
+    LATENCY_BUCKETS_MS.forEach((bound, index) => {
+      cumulative += stats.buckets[index];
+      lines.push(
+        `mcp_request_duration_seconds_bucket{operation="${label(name)}",le="${bound / 1000}"} ${cumulative}`
+      );
+    });
+    lines.push(
+      `mcp_request_duration_seconds_bucket{operation="${label(name)}",le="+Inf"} ${stats.count}`,
+      `mcp_request_duration_seconds_sum{operation="${label(name)}"} ${stats.totalMs / 1000}`,
+      `mcp_request_duration_seconds_count{operation="${label(name)}"} ${stats.count}`
+    );
+  }
+
+  metric("mcp_topic_requests_total", "counter", "Requests per practice topic");
+  for (const [topic, stats] of topics) {
+    lines.push(`mcp_topic_requests_total{topic="${label(topic)}"} ${stats.count}`);
+  }
+
+  metric("mcp_section_requests_total", "counter", "Successful requests per practice section");
+  for (const [topic, stats] of topics) {
+    for (const [section, count] of Object.entries(stats.sections)) {
+      lines.push(
+        `mcp_section_requests_total{topic="${label(topic)}",section="${label(section)}"} ${count}`
+      );
+    }
+  }
+
+  metric("mcp_topic_errors_total", "counter", "Failed requests per practice topic and error class");
+  for (const [topic, stats] of topics) {
+    for (const [error, count] of Object.entries(stats.errors)) {
+      lines.push(`mcp_topic_errors_total{topic="${label(topic)}",error="${label(error)}"} ${count}`);
+    }
+  }
+
+  const cache = getDocumentCacheStats();
+  metric("mcp_document_cache_hits_total", "counter", "Practice documents served from the cache");
+  lines.push(`mcp_document_cache_hits_total ${cache.hits}`);
+  metric("mcp_document_cache_misses_total", "counter", "Practice documents read from disk");
+  lines.push(`mcp_document_cache_misses_total ${cache.misses}`);
+  metric("mcp_uptime_seconds", "gauge", "Seconds since the server started");
+  lines.push(`mcp_uptime_seconds ${getUptimeSeconds()}`);
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Loads metrics persisted by a previous run
+ * A missing file starts from zero; an invalid one is logged and ignored
+ */
+export async function loadMetrics(filePath: string): Promise<void> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") return;
+    logger.warn("Could not read metrics file", { error: String(error) });
+    return;
+  }
+
+  try {
+    const result = metricsSnapshotSchema.safeParse(JSON.parse(raw));
+    if (!result.success) {
+      logger.warn("Invalid metrics file ignored", {
+        errors: result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+      });
+      return;
+    }
+    metrics = result.data;
+    logger.info("Loaded persisted metrics", { since: metrics.since });
+  } catch {
+    logger.warn("Invalid metrics file ignored", { error: "Not valid JSON" });
+  }
+}
+
+/**
+ * Writes the metrics to a file, replacing it atomically
+ */
+export async function saveMetrics(filePath: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(metrics, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Saves metrics periodically
+ * @returns A function that stops the timer and saves one last time
+ */
+export function persistMetrics(filePath: string, intervalMs = 30_000): () => Promise<void> {
+  const save = () =>
+    saveMetrics(filePath).catch((error) => logger.warn("Could not save metrics", { error: String(error) }));
+
+  const timer = setInterval(save, intervalMs);
+  timer.unref();
+
+  return async () => {
+    clearInterval(timer);
+    await save();
+  };
+}
@@ -0,0 +1,315 @@
+/**
+ * Team overlays on top of practice documents
+ * An overlay directory may hold a <topic>.yaml file that replaces, suppresses
+ * or annotates sections of the topic's latest document, or adds new ones
+ */
+
+import path from "path";
+import { promises as fs } from "fs";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import { findSection, parseDocument, MarkdownDocument, Section } from "./utils/markdown";
+import { validatePath } from "./utils/paths";
+import { logger } from "./utils/logger";
+
+const contentSchema = z.string().trim().min(1, "Content cannot be empty");
+const selectorSchema = z.string().trim().min(1, "Section cannot be empty");
+
+/**
+ * Schema for a single change to a practice document
+ */
+export const overlayChangeSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("replace"),
+    /** Section number or slug; its text and subsections are replaced, its heading kept */
+    section: selectorSchema,
+    content: contentSchema,
+  }),
+  z.object({
+    action: z.literal("suppress"),
+    /** Section number or slug; removed with its subsections */
+    section: selectorSchema,
+  }),
+  z.object({
+    action: z.literal("note"),
+    /** Section number or slug; the note is appended to its own text, before its subsections */
+    section: selectorSchema,
+    content: contentSchema,
+  }),
+  z.object({
+    action: z.literal("add"),
+    /** Section the new one follows as a sibling; the end of the document when omitted */
+    after: selectorSchema.optional(),
+    /** Number of the new section; required next to bare numbered headings like "2.3 Title" */
+    number: z
+      .string()
+      .trim()
+      .regex(/^\d+(?:\.\d+)*$/, "Number must look like 3 or 2.15")
+      .optional(),
+    title: z.string().trim().min(1, "Title cannot be empty").max(100, "Title too long"),
+    content: contentSchema,
+  }),
+]);
+
+/**
+ * Schema for a topic's overlay file
+ */
+export const overlayFileSchema = z.object({
+  topic: z.string().trim().toLowerCase().optional(),
+  changes: z.array(overlayChangeSchema),
+});
+
+export type OverlayChange = z.infer<typeof overlayChangeSchema>;
+
+export type OverrideAction = "replaced" | "suppressed" | "annotated" | "added";
+
+/**
+ * A section changed by an overlay
+ */
+export interface SectionOverride {
+  /** Slug of the section in the merged document, or in the built-in one if it was suppressed */
+  section: string;
+  number: string | null;
+  title: string;
+  action: OverrideAction;
+}
+
+export interface OverlayFile {
+  filePath: string;
+  size: number;
+  mtimeMs: number;
+}
+
+export const OVERLAY_EXTENSIONS = [".yaml", ".yml"];
+
+const TEAM_NOTE = "> **Team note:**";
+const TEAM_OVERRIDE = "> **Team override:** this section replaces the built-in guidance.";
+const TEAM_ADDITION = "> **Team addition:** this section is not part of the built-in guidance.";
+
+let overlayDir: string | null = null;
+
+/**
+ * Sets the directory overlay files are read from; none when omitted
+ */
+export function configureOverlayDir(dir?: string): void {
+  overlayDir = dir ? path.resolve(dir) : null;
+}
+
+export function getOverlayDir(): string | null {
+  return overlayDir;
+}
+
+/**
+ * Finds the overlay file of a topic
+ * @returns The file and its stats, or null if the topic has no overlay
+ */
+export async function findOverlayFile(topic: string): Promise<OverlayFile | null> {
+  if (!overlayDir) return null;
+
+  for (const extension of OVERLAY_EXTENSIONS) {
+    const filePath = path.resolve(overlayDir, `${topic}${extension}`);
+    if (!validatePath(overlayDir, filePath)) {
+      logger.error("Path traversal attempt detected", { topic, filePath });
+      return null;
+    }
+
+    try {
+      const stats = await fs.stat(filePath);
+      if (stats.isFile()) return { filePath, size: stats.size, mtimeMs: stats.mtimeMs };
+    } catch (error) {
+      if (!(error instanceof Error && "code" in error && error.code === "ENOENT")) throw error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads and validates an overlay file
+ * Invalid files are logged and ignored, so a typo can't take a topic offline
+ */
+export async function readOverlay(file: OverlayFile, topic: string): Promise<OverlayChange[]> {
+  let data: unknown;
+  try {
+    data = parseYaml(await fs.readFile(file.filePath, "utf-8"));
+  } catch (error) {
+    logger.warn("Invalid overlay file ignored", {
+      topic,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+
+  const result = overlayFileSchema.safeParse(data);
+  if (!result.success) {
+    logger.warn("Invalid overlay file ignored", {
+      topic,
+      errors: result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+    });
+    return [];
+  }
+
+  if (result.data.topic && result.data.topic !== topic) {
+    logger.warn("Overlay file topic does not match its file name", { topic, declared: result.data.topic });
+  }
+
+  return result.data.changes;
+}
+
+interface Edit {
+  /** 0-based index of the first line replaced */
+  start: number;
+  /** Number of lines replaced; 0 to insert */
+  deleteCount: number;
+  lines: string[];
+  /** Order of the change in the overlay, to keep insertions at the same place in order */
+  order: number;
+}
+
+const ATX_PREFIX_PATTERN = /^\s*(#{1,6})\s/;
+const NUMBER_SEPARATOR_PATTERN = /\d+(?:\.\d+)*([.)]?)\s/;
+
+/**
+ * End of a section's own text, before its first subsection (0-based, exclusive)
+ */
+function ownEnd(section: Section): number {
+  return section.children.length > 0 ? section.children[0].line - 1 : section.endLine;
+}
+
+/**
+ * Drops trailing blank lines of a section, so inserted text follows its last line
+ */
+function lastContentLine(document: MarkdownDocument, start: number, end: number): number {
+  let index = end;
+  while (index > start && !document.lines[index - 1].trim()) index--;
+  return index;
+}
+
+/**
+ * Builds the heading of an added section in the style of the section it follows
+ * @returns The heading line, or null if the style can't express an unnumbered section
+ */
+function headingFor(document: MarkdownDocument, anchor: Section | undefined, number?: string, title?: string) {
+  const line = anchor ? document.lines[anchor.line - 1] : "";
+  const atx = anchor ? line.match(ATX_PREFIX_PATTERN)?.[1] : "##";
+  if (!atx && !number) return null;
+  const prefix = atx ? `${atx} ` : "";
+  const separator = anchor?.number ? (line.match(NUMBER_SEPARATOR_PATTERN)?.[1] ?? "") : ".";
+  return `${prefix}${number ? `${number}${separator} ` : ""}${title}`;
+}
+
+/**
+ * Applies overlay changes to the content of a practice document
+ * Changes pointing at sections that don't exist, or inside sections that were
+ * replaced or suppressed, are logged and skipped
+ * @returns The merged content and the sections that were changed
+ */
+export function applyOverlay(
+  content: string,
+  changes: OverlayChange[],
+  topic: string
+): { content: string; overrides: SectionOverride[] } {
+  const document = parseDocument(content);
+  const edits: Edit[] = [];
+  const overrides: SectionOverride[] = [];
+  const additions: { title: string; number: string | null }[] = [];
+
+  const target = (change: OverlayChange) => {
+    const selector = change.action === "add" ? change.after : change.section;
+    return selector ? findSection(document, selector) : undefined;
+  };
+  const removed = new Map<Section, OverlayChange["action"]>();
+  for (const change of changes) {
+    const section = target(change);
+    if (section && (change.action === "replace" || change.action === "suppress") && !removed.has(section)) {
+      removed.set(section, change.action);
+    }
+  }
+  const within = (inner: Section, outer: Section) => inner.line >= outer.line && inner.endLine <= outer.endLine;
+  // Changes inside a replaced or suppressed section would be lost. A note can't go
+  // on a removed section either, but a section can still be added after a replaced one
+  const isLost = (section: Section, change: OverlayChange) =>
+    [...removed].some(([other, action]) => {
+      if (other !== section) return within(section, other);
+      return change.action === "note" || (change.action === "add" && action === "suppress");
+    });
+  const handled = new Set<Section>();
+  const skip = (change: OverlayChange, reason: string) =>
+    logger.warn("Overlay change skipped", { topic, action: change.action, reason });
+
+  changes.forEach((change, order) => {
+    const section = target(change);
+    const selector = change.action === "add" ? change.after : change.section;
+    if (selector && !section) return skip(change, `Unknown section: ${selector}`);
+    if (section && isLost(section, change)) {
+      return skip(change, `Section ${selector} is replaced or suppressed`);
+    }
+
+    switch (change.action) {
+      case "replace":
+      case "suppress": {
+        const target = section!;
+        if (handled.has(target)) return skip(change, `Section ${selector} is already replaced or suppressed`);
+        handled.add(target);
+        const replacement = change.action === "replace" ? ["", TEAM_OVERRIDE, "", change.content, ""] : [];
+        const start = change.action === "replace" ? target.line : target.line - 1;
+        edits.push({ start, deleteCount: target.endLine - start, lines: replacement, order });
+        overrides.push({
+          section: target.slug,
+          number: target.number,
+          title: target.title,
+          action: change.action === "replace" ? "replaced" : "suppressed",
+        });
+        break;
+      }
+      case "note": {
+        const target = section!;
+        const at = lastContentLine(document, target.line, ownEnd(target));
+        const note = change.content.split("\n").map((line, index) => (index === 0 ? `${TEAM_NOTE} ${line}` : `> ${line}`));
+        edits.push({ start: at, deleteCount: 0, lines: ["", ...note], order });
+        overrides.push({ section: target.slug, number: target.number, title: target.title, action: "annotated" });
+        break;
+      }
+      case "add": {
+        const anchor = section ?? document.sections.at(-1);
+        const heading = headingFor(document, anchor, change.number, change.title);
+        if (!heading) return skip(change, `A number is needed to add a section after ${anchor!.title}`);
+        // A replaced section's text is deleted up to its end, so insert after that
+        const at = !section
+          ? document.lines.length
+          : removed.has(section)
+            ? section.endLine
+            : lastContentLine(document, section.line, section.endLine);
+        edits.push({
+          start: at,
+          deleteCount: 0,
+          lines: ["", heading, "", TEAM_ADDITION, "", change.content],
+          order,
+        });
+        additions.push({ title: change.title, number: change.number ?? null });
+        break;
+      }
+    }
+  });
+
+  // Later positions first, so earlier indices stay valid; insertions at the same
+  // position keep the overlay's order
+  const lines = [...document.lines];
+  [...edits]
+    .sort((a, b) => b.start - a.start || b.order - a.order)
+    .forEach((edit) => lines.splice(edit.start, edit.deleteCount, ...edit.lines));
+  const merged = lines.join("\n");
+
+  // Added sections get their slugs from the merged document
+  const mergedSections = parseDocument(merged);
+  for (const addition of additions) {
+    const section = findSection(mergedSections, addition.number ?? addition.title);
+    if (!section || section.title !== addition.title) {
+      logger.warn("Added overlay section not recognized as a heading", { topic, title: addition.title });
+      continue;
+    }
+    overrides.push({ section: section.slug, number: section.number, title: section.title, action: "added" });
+  }
+
+  return { content: merged, overrides };
+}
@@ -0,0 +1,94 @@
+/**
+ * Access to the package.json of projects on the server's filesystem
+ * Reads are confined to the configured project roots, and disabled until
+ * the operator configures some
+ */
+
+import path from "path";
+import { promises as fs } from "fs";
+import { validatePath } from "./utils/paths";
+import { SecurityError, ValidationError, FileReadError, FileTooLargeError } from "./utils/errors";
+import { logger } from "./utils/logger";
+
+/**
+ * Largest package.json that is read, in bytes
+ */
+export const MAX_PACKAGE_JSON_SIZE = 200_000;
+
+const PACKAGE_JSON = "package.json";
+
+let projectRoots: string[] = [];
+
+/**
+ * Sets the directories package.json files may be read from
+ * Reading by path stays disabled when none are given
+ */
+export function configureProjectRoots(dirs: string[]): void {
+  projectRoots = dirs.map((dir) => path.resolve(dir));
+}
+
+/**
+ * Returns the directories package.json files may be read from
+ */
+export function getProjectRoots(): string[] {
+  return projectRoots;
+}
+
+function isInsideRoot(filePath: string, roots: string[]): boolean {
+  return roots.some((root) => validatePath(root, filePath));
+}
+
+/**
+ * Reads a package.json inside a project root
+ * @param inputPath - A package.json, or the directory containing it; relative paths
+ *   resolve against the first project root
+ * @throws SecurityError if the path (or its symlink target) is outside every root
+ * @throws ValidationError if no project roots are configured, or there is no package.json at the path
+ */
+export async function readPackageJson(inputPath: string): Promise<string> {
+  const roots = getProjectRoots();
+  if (roots.length === 0) {
+    throw new ValidationError(
+      "Reading package.json by path is disabled; pass its contents, or configure project roots on the server"
+    );
+  }
+  let filePath = path.resolve(roots[0], inputPath);
+  if (!isInsideRoot(filePath, roots)) {
+    logger.error("Path traversal attempt detected", { path: inputPath });
+    throw new SecurityError("Path is outside the allowed project roots");
+  }
+
+  // Anything but a package.json is taken as its directory, so other files under the roots are never read
+  if (path.basename(filePath) !== PACKAGE_JSON) {
+    filePath = path.join(filePath, PACKAGE_JSON);
+  }
+
+  try {
+    // Symlinks must not lead out of the roots, or to another file
+    const realPath = await fs.realpath(filePath);
+    const realRoots = await Promise.all(roots.map((root) => fs.realpath(root).catch(() => root)));
+    if (!isInsideRoot(realPath, realRoots)) {
+      throw new SecurityError("Path is outside the allowed project roots");
+    }
+    if (path.basename(realPath) !== PACKAGE_JSON || !(await fs.stat(realPath)).isFile()) {
+      throw new ValidationError(`No package.json found at ${inputPath}`);
+    }
+
+    const { size } = await fs.stat(realPath);
+    if (size > MAX_PACKAGE_JSON_SIZE) {
+      throw new FileTooLargeError("package.json", size, MAX_PACKAGE_JSON_SIZE);
+    }
+
+    logger.debug("Reading package.json", { path: filePath });
+    return await fs.readFile(realPath, "utf-8");
+  } catch (error) {
+    if (error instanceof SecurityError || error instanceof ValidationError || error instanceof FileTooLargeError) {
+      throw error;
+    }
+    if (error instanceof Error && "code" in error && (error.code === "ENOENT" || error.code === "ENOTDIR")) {
+      throw new ValidationError(`No package.json found at ${inputPath}`);
+    }
+    logger.error("Failed to read package.json", error);
+    throw new FileReadError(`Failed to read package.json at ${inputPath}`);
+  }
+}
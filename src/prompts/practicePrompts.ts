@@ -0,0 +1,184 @@
+/**
+ * Curated prompts that frame a task with the relevant practice sections
+ */
+
+import { getPractice } from "../tools/getPractice";
+import { getSectionUri } from "../resources/practices";
+import { NotFoundError, ValidationError } from "../utils/errors";
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+interface SectionReference {
+  topic: string;
+  /** Slug of the section, which stays the same when sections are renumbered */
+  slug: string;
+}
+
+interface PracticePrompt {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  /** Practice sections embedded in the prompt, in order */
+  sections: SectionReference[];
+  /** Builds the instruction that follows the embedded sections */
+  render: (args: Record<string, string>) => string;
+}
+
+/**
+ * Wraps code in a fence so it can't be confused with the instructions
+ * The fence is longer than any backtick run in the code, so a fence inside it can't close it early
+ */
+export function fence(code: string, language = "tsx"): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${code.trim()}\n${marker}`;
+}
+
+const PROMPTS: PracticePrompt[] = [
+  {
+    name: "review-react-component",
+    title: "Review a component against React best practices",
+    description:
+      "Reviews a React component for size, hooks, error handling, naming and typing against the React and TypeScript practices",
+    arguments: [
+      { name: "code", description: "Source of the component to review", required: true },
+      {
+        name: "focus",
+        description: "Optional area to focus on, e.g. performance or accessibility",
+        required: false,
+      },
+    ],
+    sections: [
+      { topic: "react", slug: "adhere-to-naming-conventions" },
+      { topic: "react", slug: "keep-components-small-reusable" },
+      { topic: "react", slug: "build-and-use-custom-hooks" },
+      { topic: "react", slug: "handle-errors-gracefully" },
+      { topic: "react", slug: "prefer-functional-components" },
+      { topic: "typescript", slug: "avoid-the-any-type" },
+    ],
+    render: (args) =>
+      [
+        "Review the following React component against the best practices above.",
+        ...(args.focus ? [`Focus especially on: ${args.focus}.`] : []),
+        "For each issue, name the practice section it violates, explain why it matters, and show the corrected code. Finish with a short list of what the component already does well.",
+        "",
+        fence(args.code),
+      ].join("\n"),
+  },
+  {
+    name: "plan-nextjs-feature",
+    title: "Plan a Next.js App Router feature",
+    description:
+      "Plans a feature for a Next.js App Router project: file layout, rendering and data fetching, state, forms and error handling",
+    arguments: [
+      { name: "feature", description: "What the feature should do", required: true },
+      {
+        name: "constraints",
+        description: "Optional constraints, e.g. existing routes, auth or data sources",
+        required: false,
+      },
+    ],
+    sections: [
+      { topic: "nextjs", slug: "project-structure" },
+      { topic: "nextjs", slug: "rendering-data-fetching" },
+      { topic: "nextjs", slug: "state-management-minimal-intentional" },
+      { topic: "nextjs", slug: "error-handling-observability" },
+      { topic: "nextjs", slug: "forms-prefer-server-actions" },
+    ],
+    render: (args) =>
+      [
+        `Plan the following feature for a Next.js App Router project, following the best practices above: ${args.feature}`,
+        args.constraints ? `Constraints: ${args.constraints}` : "",
+        "Include the files and route segments to create, which parts are Server or Client Components, how data is fetched and cached, how mutations and forms work, and how loading and error states are handled. Call out any trade-offs.",
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+  },
+  {
+    name: "migrate-to-zustand",
+    title: "Migrate a store to Zustand patterns",
+    description:
+      "Rewrites existing state management code (Redux, Context, MobX, ...) as a Zustand store with selectors, derived state and private state",
+    arguments: [
+      { name: "code", description: "The store or state management code to migrate", required: true },
+      {
+        name: "source",
+        description: "Optional name of the current library, e.g. Redux Toolkit or React Context",
+        required: false,
+      },
+    ],
+    sections: [
+      { topic: "zustand", slug: "picking-state" },
+      { topic: "zustand", slug: "calculated-derived-state" },
+      { topic: "zustand", slug: "private-state-with-typescript" },
+      { topic: "zustand", slug: "architecture-tips" },
+      { topic: "zustand", slug: "example-store-template-typescript" },
+    ],
+    render: (args) =>
+      [
+        `Migrate the following ${args.source ? `${args.source} ` : ""}state management code to a Zustand store that follows the patterns above.`,
+        "Show the new store, update one consuming component to use fine-grained selectors, and list anything that behaves differently after the migration.",
+        "",
+        fence(args.code),
+      ].join("\n"),
+  },
+];
+
+/**
+ * Lists the available prompts with their arguments
+ */
+export function getPromptList() {
+  return PROMPTS.map((prompt) => ({
+    name: prompt.name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: prompt.arguments,
+  }));
+}
+
+/**
+ * Builds the messages of a prompt: one embedded resource per practice
+ * section, followed by the instruction
+ * @throws NotFoundError if the prompt doesn't exist
+ * @throws ValidationError if a required argument is missing
+ */
+export async function getPromptMessages(name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS.find((candidate) => candidate.name === name);
+  if (!prompt) {
+    throw new NotFoundError(`Prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments
+    .filter((argument) => argument.required && !args[argument.name]?.trim())
+    .map((argument) => argument.name);
+  if (missing.length > 0) {
+    throw new ValidationError(`Missing required arguments: ${missing.join(", ")}`);
+  }
+
+  const sections = await Promise.all(
+    prompt.sections.map(async ({ topic, slug }) => ({
+      role: "user" as const,
+      content: {
+        type: "resource" as const,
+        resource: {
+          uri: getSectionUri(topic, slug),
+          mimeType: "text/markdown",
+          text: await getPractice({ topic, section: slug }),
+        },
+      },
+    }))
+  );
+
+  return {
+    description: prompt.description,
+    messages: [
+      ...sections,
+      { role: "user" as const, content: { type: "text" as const, text: prompt.render(args) } },
+    ],
+  };
+}
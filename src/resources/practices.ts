@@ -2,73 +2,149 @@
  * Resource handlers for best practice documentation
  */
 
-import { VALID_TOPICS, ValidTopic } from "../types";
+import { getTopics, isKnownTopic } from "../topics";
+
+/**
+ * A parsed practice:// URI
+ */
+export type PracticeUri =
+  | { kind: "graph" }
+  | { kind: "document"; topic: string }
+  | { kind: "section"; topic: string; section: string }
+  | { kind: "example"; topic: string; index: number };
+
+/**
+ * URI of the cross-reference graph between all practice sections
+ */
+export const GRAPH_URI = "practice://graph";
 
 /**
  * Generates a resource URI for a given topic
  */
-export function getResourceUri(topic: ValidTopic): string {
+export function getResourceUri(topic: string): string {
   return `practice://${topic}`;
 }
 
 /**
- * Validates if a URI is a valid practice resource URI
+ * Generates a resource URI for a section, by number or slug
+ */
+export function getSectionUri(topic: string, section: string): string {
+  return `practice://${topic}/${encodeURIComponent(section)}`;
+}
+
+/**
+ * Generates a resource URI for a code example, by its 1-based index
  */
-export function isValidResourceUri(uri: string): boolean {
-  const match = uri.match(/^practice:\/\/(.+)$/);
-  if (!match) return false;
-  return VALID_TOPICS.includes(match[1] as any);
+export function getExampleUri(topic: string, index: number): string {
+  return `practice://${topic}/examples/${index}`;
 }
 
 /**
- * Extracts the topic from a practice resource URI
+ * Parses the graph URI, or a document, section or code example URI, whether or not its topic exists
+ * Returns null for other schemes and malformed paths
  */
-export function extractTopicFromUri(uri: string): ValidTopic | null {
-  const match = uri.match(/^practice:\/\/(.+)$/);
-  if (!match || !VALID_TOPICS.includes(match[1] as any)) {
+export function parsePracticeUri(uri: string): PracticeUri | null {
+  if (uri === GRAPH_URI) return { kind: "graph" };
+
+  const match = uri.match(/^practice:\/\/([^/]+)(?:\/(.+))?$/);
+  if (!match) return null;
+
+  const [, topic, rest] = match;
+  if (rest === undefined) {
+    return { kind: "document", topic };
+  }
+
+  const example = rest.match(/^examples\/(\d+)$/);
+  if (example) {
+    const index = Number(example[1]);
+    return index >= 1 ? { kind: "example", topic, index } : null;
+  }
+
+  if (rest.includes("/")) return null;
+
+  let section: string;
+  try {
+    section = decodeURIComponent(rest);
+  } catch {
     return null;
   }
-  return match[1] as ValidTopic;
+  return section.trim() ? { kind: "section", topic, section } : null;
 }
 
 /**
- * Gets a human-readable name for a topic
+ * Parses the graph URI, or a document, section or code example URI
+ * Returns null for other schemes, unknown topics and malformed paths
  */
-function getTopicName(topic: ValidTopic): string {
-  const names: Record<ValidTopic, string> = {
-    react: "React",
-    nextjs: "Next.js",
-    typescript: "TypeScript",
-    zustand: "Zustand",
-    "tanstack-query": "TanStack Query",
-    ui: "UI/UX",
-  };
-  return names[topic];
+export function parseResourceUri(uri: string): PracticeUri | null {
+  const resource = parsePracticeUri(uri);
+  return resource && (resource.kind === "graph" || isKnownTopic(resource.topic)) ? resource : null;
 }
 
 /**
- * Gets a description for a topic
+ * Resource templates for addressing a single section or code example
  */
-function getTopicDescription(topic: ValidTopic): string {
-  const descriptions: Record<ValidTopic, string> = {
-    react: "Best practices for React development",
-    nextjs: "Best practices for Next.js development",
-    typescript: "Best practices for TypeScript development",
-    zustand: "Best practices for Zustand state management",
-    "tanstack-query": "Best practices for TanStack Query data fetching",
-    ui: "Best practices for UI/UX design and implementation",
-  };
-  return descriptions[topic];
+export function getResourceTemplates() {
+  return [
+    {
+      uriTemplate: "practice://{topic}/{section}",
+      name: "Best Practice Section",
+      description:
+        'A single section of a best practice document, by number (e.g. "7", "2.3") or slug (e.g. "query-keys-invalidation"), including its subsections',
+      mimeType: "text/markdown",
+    },
+    {
+      uriTemplate: "practice://{topic}/examples/{n}",
+      name: "Best Practice Code Example",
+      description:
+        "The n-th code example (1-based) of a best practice document, with its section heading",
+      mimeType: "text/markdown",
+    },
+  ];
 }
 
 /**
  * Generates resource list for all available practices
+ * Names, descriptions and metadata come from each document's front matter
  */
 export function getResourceList() {
-  return VALID_TOPICS.map((topic) => ({
+  return getTopics().map(({ name: topic, metadata, versions }) => ({
     uri: getResourceUri(topic),
-    name: `${getTopicName(topic)} Best Practices`,
-    description: getTopicDescription(topic),
+    name: `${metadata.name} Best Practices`,
+    description: metadata.description,
     mimeType: "text/markdown",
+    _meta: {
+      tags: metadata.tags,
+      related: metadata.related,
+      ...(metadata.version && { version: metadata.version }),
+      ...(metadata.lastReviewed && { lastReviewed: metadata.lastReviewed }),
+      /** Versions get_best_practice accepts, the one served by default first */
+      versions: versions.map(({ version }) => version),
+    },
   }));
 }
+
+/**
+ * Describes the graph resource, listed after the practices
+ */
+export function getGraphResource() {
+  return {
+    uri: GRAPH_URI,
+    name: "Best Practice Graph",
+    description:
+      "Sections of all topics as nodes, connected by practice:// links, topic mentions, shared terms and related topics",
+    mimeType: "application/json",
+  };
+}
+
+/**
+ * Describes every topic in one line each, for tool descriptions
+ */
+export function describeTopics(): string {
+  return getTopics()
+    .map(({ name: topic, metadata, versions }) => {
+      const versionList =
+        versions.length > 1 ? ` (versions: ${versions.map(({ version }) => version).join(", ")})` : "";
+      return `- ${topic}: ${metadata.name} — ${metadata.description}${versionList}`;
+    })
+    .join("\n");
+}
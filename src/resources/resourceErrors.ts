@@ -0,0 +1,77 @@
+/**
+ * Maps errors from reading practice:// resources to JSON-RPC errors
+ * Mirrors the tool error mapping: clients learn what they asked for wrongly,
+ * but never the details of server-side failures such as file system messages
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import {
+  MCPError,
+  NotFoundError,
+  ValidationError,
+  SecurityError,
+  FileReadError,
+  FileTooLargeError,
+} from "../utils/errors";
+import { Logger } from "../utils/logger";
+
+/**
+ * JSON-RPC error code for resources that don't exist, as defined by the MCP specification
+ */
+export const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Data attached to resource errors: the URI and the MCPError code, if any
+ */
+export interface ResourceErrorData {
+  uri: string;
+  code?: string;
+}
+
+function resourceError(code: number, message: string, uri: string, error?: MCPError): McpError {
+  const data: ResourceErrorData = { uri, ...(error && { code: error.code }) };
+  return new McpError(code, message, data);
+}
+
+/**
+ * Turns an error from reading a resource into the JSON-RPC error sent to the client
+ */
+export function toResourceError(error: unknown, uri: string, log: Logger): McpError {
+  if (error instanceof ValidationError) {
+    log.warn("Invalid resource request", { uri, message: error.message });
+    return resourceError(ErrorCode.InvalidParams, error.message, uri, error);
+  }
+
+  if (error instanceof NotFoundError) {
+    log.info("Resource not found", { uri, message: error.message });
+    return resourceError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, uri, error);
+  }
+
+  if (error instanceof SecurityError) {
+    log.error("Security violation", error);
+    return resourceError(ErrorCode.InvalidParams, "Access denied", uri, error);
+  }
+
+  if (error instanceof FileTooLargeError) {
+    log.warn("Practice file too large", { uri, message: error.message });
+    return resourceError(
+      ErrorCode.InternalError,
+      `This best practice document is too large to serve (limit: ${error.maxSize} bytes)`,
+      uri,
+      error
+    );
+  }
+
+  if (error instanceof FileReadError) {
+    log.error("File read error", error);
+    return resourceError(ErrorCode.InternalError, "An error occurred while reading the resource", uri, error);
+  }
+
+  if (error instanceof MCPError) {
+    log.error("Failed to read resource", error);
+    return resourceError(ErrorCode.InternalError, "An error occurred while reading the resource", uri, error);
+  }
+
+  log.error("Unexpected error reading resource", error);
+  return resourceError(ErrorCode.InternalError, "An unexpected error occurred", uri);
+}
@@ -0,0 +1,91 @@
+/**
+ * Static checks of a code snippet against review rules
+ */
+
+import { PACKAGE_TO_TOPICS } from "../types";
+import { isKnownTopic } from "../topics";
+import { ReviewRule } from "./rules";
+
+export interface Finding {
+  rule: ReviewRule;
+  /** 1-based line the match starts on */
+  line: number;
+  /** Trimmed source line the match starts on */
+  excerpt: string;
+}
+
+const IMPORT_PATTERN =
+  /(?:\bfrom\s+|\bimport\s*\(\s*|\brequire\s*\(\s*|^\s*import\s+)["']([^"']+)["']/gm;
+
+/**
+ * Reduces an import specifier to its package name
+ * e.g. "next/image" -> "next", "@tanstack/react-query/devtools" -> "@tanstack/react-query"
+ */
+export function packageName(specifier: string): string | null {
+  if (specifier.startsWith(".") || specifier.startsWith("/")) return null;
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+/**
+ * Guesses which topics apply to a snippet from the packages it imports
+ * TypeScript always applies; Tailwind class names bring in the ui topic
+ */
+export function detectTopics(code: string): string[] {
+  const topics = new Set<string>(["typescript"]);
+
+  for (const match of code.matchAll(IMPORT_PATTERN)) {
+    const name = packageName(match[1]);
+    for (const topic of (name && PACKAGE_TO_TOPICS[name]) || []) {
+      topics.add(topic);
+    }
+  }
+
+  if (/\bclassName=/.test(code)) {
+    topics.add("ui");
+  }
+
+  return [...topics].filter((topic) => isKnownTopic(topic));
+}
+
+/**
+ * Runs rules against a snippet
+ * @returns Findings ordered by line, one per pattern match
+ */
+export function analyzeCode(code: string, rules: ReviewRule[]): Finding[] {
+  const lines = code.split(/\r?\n/);
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of code.split("\n")) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  const lineAt = (index: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= index) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  const findings: Finding[] = [];
+
+  for (const rule of rules) {
+    if (rule.when && !new RegExp(rule.when, rule.flags).test(code)) continue;
+    if (rule.unless && new RegExp(rule.unless, rule.flags).test(code)) continue;
+
+    const pattern = new RegExp(rule.pattern, [...new Set(`${rule.flags}gm`)].join(""));
+    for (const match of code.matchAll(pattern)) {
+      // Anchored patterns may match the newline before the offending line
+      const leading = match[0].length - match[0].trimStart().length;
+      const line = lineAt(match.index + leading);
+      findings.push({ rule, line, excerpt: lines[line - 1].trim() });
+    }
+  }
+
+  return findings.sort((a, b) => a.line - b.line);
+}
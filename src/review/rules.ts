@@ -0,0 +1,183 @@
+/**
+ * Review rules declared per topic
+ * Each practice directory may hold a rules/<topic>.json file whose rules point
+ * at the section of the practice document they come from
+ */
+
+import path from "path";
+import { promises as fs } from "fs";
+import { z } from "zod";
+import { getTopic } from "../topics";
+import { loadDocument } from "../documentStore";
+import { findSection } from "../utils/markdown";
+import { validatePath } from "../utils/paths";
+import { logger } from "../utils/logger";
+
+/**
+ * Schema for a regular expression source, rejected if it does not compile
+ */
+const regexSchema = z
+  .string()
+  .min(1, "Pattern cannot be empty")
+  .refine(
+    (source) => {
+      try {
+        new RegExp(source);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { error: "Invalid regular expression" }
+  );
+
+/**
+ * Schema for a single rule
+ */
+export const ruleSchema = z.object({
+  id: z.string().trim().min(1, "Rule id cannot be empty"),
+  section: z.string().trim().min(1, "Section cannot be empty"),
+  severity: z.enum(["error", "warning", "info"]),
+  message: z.string().trim().min(1, "Message cannot be empty"),
+  /** Reported once per match, on the line the match starts */
+  pattern: regexSchema,
+  flags: z
+    .string()
+    .regex(/^[imsu]*$/, "Only the i, m, s and u flags are allowed")
+    .default(""),
+  /** The rule only applies if the whole snippet matches this pattern */
+  when: regexSchema.optional(),
+  /** The rule is skipped if the whole snippet matches this pattern */
+  unless: regexSchema.optional(),
+  suggestion: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Schema for a topic's rule file
+ */
+export const ruleFileSchema = z.object({
+  topic: z.string().trim().toLowerCase(),
+  rules: z.array(ruleSchema),
+});
+
+export type RuleDefinition = z.infer<typeof ruleSchema>;
+
+export type Severity = RuleDefinition["severity"];
+
+/**
+ * A rule whose section has been resolved against the practice document
+ */
+export interface ReviewRule extends RuleDefinition {
+  topic: string;
+  sectionSlug: string;
+  sectionTitle: string;
+  sectionNumber: string | null;
+}
+
+export const RULES_DIR = "rules";
+
+const cache = new Map<string, Promise<ReviewRule[]>>();
+
+/**
+ * Reads and validates the rule file of a topic
+ * A topic without a rule file has no rules
+ */
+async function readRuleFile(topic: string): Promise<RuleDefinition[]> {
+  const entry = getTopic(topic);
+  if (!entry) return [];
+
+  const basePath = path.resolve(entry.root, RULES_DIR);
+  const filePath = path.resolve(basePath, `${topic}.json`);
+
+  if (!validatePath(basePath, filePath)) {
+    logger.error("Path traversal attempt detected", { topic, filePath });
+    return [];
+  }
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const result = ruleFileSchema.safeParse(JSON.parse(raw));
+  if (!result.success) {
+    logger.warn("Invalid rule file ignored", {
+      topic,
+      errors: result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+    });
+    return [];
+  }
+
+  if (result.data.topic !== topic) {
+    logger.warn("Rule file topic does not match its file name", {
+      topic,
+      declared: result.data.topic,
+    });
+  }
+
+  return result.data.rules;
+}
+
+/**
+ * Resolves each rule's section against the topic's practice document
+ * Rules pointing at sections that don't exist are dropped
+ */
+async function resolveRules(topic: string, rules: RuleDefinition[]): Promise<ReviewRule[]> {
+  if (rules.length === 0) return [];
+
+  const { document } = await loadDocument(topic);
+
+  return rules.flatMap((rule) => {
+    const section = findSection(document, rule.section);
+    if (!section) {
+      logger.warn("Rule references unknown section", {
+        topic,
+        rule: rule.id,
+        section: rule.section,
+      });
+      return [];
+    }
+    return [
+      {
+        ...rule,
+        topic,
+        sectionSlug: section.slug,
+        sectionTitle: section.title,
+        sectionNumber: section.number,
+      },
+    ];
+  });
+}
+
+/**
+ * Returns the review rules of a topic, loading them on first use
+ */
+export function getRules(topic: string): Promise<ReviewRule[]> {
+  let rules = cache.get(topic);
+  if (!rules) {
+    rules = readRuleFile(topic)
+      .then((definitions) => resolveRules(topic, definitions))
+      .catch((error) => {
+        cache.delete(topic);
+        logger.warn("Could not load review rules", {
+          topic,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return [];
+      });
+    cache.set(topic, rules);
+  }
+  return rules;
+}
+
+/**
+ * Drops all loaded rules so they are read again on next use
+ */
+export function clearRules(): void {
+  cache.clear();
+}
@@ -0,0 +1,153 @@
+/**
+ * Text embedders for semantic search
+ * The default hashing embedder is deterministic and needs no model, so it
+ * works offline and in tests. A local transformers.js model is used instead
+ * when one is configured and @huggingface/transformers is installed; plugins
+ * can set any other embedder
+ */
+
+import { tokenize } from "./searchIndex";
+import { logger } from "../utils/logger";
+
+export interface Embedder {
+  /** Identifies the model and its settings; vectors of different embedders are never mixed */
+  id: string;
+  /** Returns one vector per text, in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const HASHING_DIMENSIONS = 512;
+/** Character trigrams match word variants the stemmer misses, e.g. "rerender" and "render" */
+const TRIGRAM_WEIGHT = 0.5;
+
+const TRANSFORMERS_PACKAGE = "@huggingface/transformers";
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embeds a text by hashing its terms and their character trigrams into a fixed
+ * number of signed buckets, normalized to unit length
+ */
+export function hashText(text: string, dimensions = HASHING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  for (const term of tokenize(text)) {
+    add(term, 1);
+    const padded = `^${term}$`;
+    for (let index = 0; index + 3 <= padded.length; index++) {
+      add(`#${padded.slice(index, index + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * Creates the deterministic embedder used when no model is configured
+ */
+export function createHashingEmbedder(dimensions = HASHING_DIMENSIONS): Embedder {
+  return {
+    id: `hashing-v1-${dimensions}`,
+    embed: async (texts) => texts.map((text) => hashText(text, dimensions)),
+  };
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+/**
+ * The part of @huggingface/transformers the embedder uses
+ */
+export interface TransformersModule {
+  pipeline: (task: "feature-extraction", model: string) => Promise<FeatureExtractor>;
+}
+
+/**
+ * Creates an embedder running a local feature extraction model with transformers.js
+ * The model is loaded on first use and runs on the CPU
+ * @param model - Model name, e.g. "Xenova/all-MiniLM-L6-v2"
+ * @param loadModule - Imports transformers.js; replaceable in tests
+ */
+export function createTransformersEmbedder(
+  model: string,
+  loadModule: () => Promise<TransformersModule> = () => import(TRANSFORMERS_PACKAGE)
+): Embedder {
+  let extractor: Promise<FeatureExtractor> | null = null;
+
+  const load = async () => {
+    const { pipeline } = await loadModule();
+    logger.info("Loading embedding model", { model });
+    return pipeline("feature-extraction", model);
+  };
+
+  return {
+    id: `transformers:${model}`,
+    embed: async (texts) => {
+      extractor ??= load().catch((error) => {
+        extractor = null;
+        throw error;
+      });
+      const output = await (await extractor)(texts, { pooling: "mean", normalize: true });
+      return output.tolist();
+    },
+  };
+}
+
+function isInstalled(packageName: string): boolean {
+  try {
+    require.resolve(packageName);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let embedder: Embedder = createHashingEmbedder();
+
+/**
+ * Selects the embedder from the configuration
+ * Falls back to the hashing embedder if a model is configured but transformers.js isn't installed
+ * @param model - Local model name; the hashing embedder when omitted
+ */
+export function configureEmbedder(model?: string): void {
+  if (model && isInstalled(TRANSFORMERS_PACKAGE)) {
+    embedder = createTransformersEmbedder(model);
+    return;
+  }
+
+  if (model) {
+    logger.warn("Embedding model configured but transformers.js is not installed, using hashing embedder", {
+      model,
+      package: TRANSFORMERS_PACKAGE,
+    });
+  }
+  embedder = createHashingEmbedder();
+}
+
+/**
+ * Replaces the embedder, e.g. with one backed by another local model
+ */
+export function setEmbedder(next: Embedder): void {
+  embedder = next;
+}
+
+export function getEmbedder(): Embedder {
+  return embedder;
+}
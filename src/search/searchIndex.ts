@@ -0,0 +1,247 @@
+/**
+ * In-memory full-text index over the sections of all practice documents
+ * Uses BM25 ranking with a boost for matches in section titles
+ */
+
+import { getTopicNames } from "../topics";
+import { loadDocument } from "../documentStore";
+import { parseDocument, flattenSections, MarkdownDocument, Section } from "../utils/markdown";
+import { logger } from "../utils/logger";
+
+export interface IndexedSection {
+  topic: string;
+  number: string | null;
+  title: string;
+  slug: string;
+  /** Text of the section itself, excluding its subsections */
+  text: string;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export interface SearchIndex {
+  sections: IndexedSection[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+export interface SearchOptions {
+  topic?: string;
+  limit?: number;
+}
+
+export interface SearchResult {
+  topic: string;
+  number: string | null;
+  title: string;
+  slug: string;
+  snippet: string;
+  score: number;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const TITLE_WEIGHT = 3;
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "for", "from", "how", "i",
+  "in", "is", "it", "of", "on", "or", "the", "this", "to", "use", "what", "when",
+  "where", "with", "you", "your",
+]);
+
+/**
+ * Reduces a word to a crude stem so "selectors" matches "selector"
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  const stemmed = word
+    .replace(/ies$/, "y")
+    .replace(/([^s])s$/, "$1")
+    .replace(/(?:ing|ed|e)$/, "");
+  return stemmed.length >= 3 ? stemmed : word;
+}
+
+/**
+ * Splits text into normalized search terms
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Returns the lines of a section up to its first subsection
+ */
+function getOwnText(document: MarkdownDocument, section: Section): string {
+  const end = section.children.length > 0 ? section.children[0].line - 1 : section.endLine;
+  return document.lines.slice(section.line, end).join("\n").trim();
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Builds a search index from the given topic documents
+ */
+export function createSearchIndex(documents: { topic: string; content: string }[]): SearchIndex {
+  const sections: IndexedSection[] = [];
+  const documentFrequencies = new Map<string, number>();
+
+  for (const { topic, content } of documents) {
+    const document = parseDocument(content);
+
+    for (const section of flattenSections(document.sections)) {
+      const text = getOwnText(document, section);
+      const titleTerms = tokenize(section.title);
+      const terms = [...tokenize(text), ...Array(TITLE_WEIGHT).fill(titleTerms).flat()];
+      const termFrequencies = countTerms(terms);
+
+      for (const term of termFrequencies.keys()) {
+        documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+      }
+
+      sections.push({
+        topic,
+        number: section.number,
+        title: section.title,
+        slug: section.slug,
+        text,
+        termFrequencies,
+        length: terms.length,
+      });
+    }
+  }
+
+  const totalLength = sections.reduce((sum, section) => sum + section.length, 0);
+
+  return {
+    sections,
+    documentFrequencies,
+    averageLength: sections.length > 0 ? totalLength / sections.length : 0,
+  };
+}
+
+/**
+ * Picks the first prose line of a section that mentions a query term,
+ * falling back to matching lines inside code blocks
+ */
+function buildSnippet(text: string, terms: string[]): string {
+  const lines: string[] = [];
+  const codeLines: string[] = [];
+  let inFence = false;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (line.startsWith("```")) {
+      inFence = !inFence;
+      continue;
+    }
+    if (line) (inFence ? codeLines : lines).push(line);
+  }
+
+  const matches = (line: string) => tokenize(line).some((term) => terms.includes(term));
+  const match = lines.find(matches) ?? codeLines.find(matches);
+  const snippet = match ?? lines[0] ?? "";
+
+  return snippet.length > SNIPPET_LENGTH ? `${snippet.slice(0, SNIPPET_LENGTH - 1)}…` : snippet;
+}
+
+/**
+ * Ranks indexed sections against a free-text query
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  const total = index.sections.length;
+  const results: SearchResult[] = [];
+
+  for (const section of index.sections) {
+    if (options.topic && section.topic !== options.topic) continue;
+
+    let score = 0;
+    for (const term of terms) {
+      const frequency = section.termFrequencies.get(term);
+      if (!frequency) continue;
+
+      const documentFrequency = index.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const normalization =
+        1 - BM25_B + (BM25_B * section.length) / (index.averageLength || 1);
+      score += (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * normalization);
+    }
+
+    if (score > 0) {
+      results.push({
+        topic: section.topic,
+        number: section.number,
+        title: section.title,
+        slug: section.slug,
+        snippet: buildSnippet(section.text, terms),
+        score: Math.round(score * 1000) / 1000,
+      });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, options.limit ?? results.length);
+}
+
+let indexPromise: Promise<SearchIndex> | null = null;
+
+/**
+ * Loads the latest document of every topic
+ * A topic that can't be loaded (e.g. a file above the size limit) is logged and left out,
+ * so it doesn't take search down for every other topic
+ */
+async function loadIndexableDocuments(): Promise<Array<{ topic: string; content: string }>> {
+  const documents = await Promise.all(
+    getTopicNames().map(async (topic) => {
+      try {
+        return { topic, content: (await loadDocument(topic)).content };
+      } catch (error) {
+        logger.warn("Topic left out of the search index", { topic, error: String(error) });
+        return null;
+      }
+    })
+  );
+  return documents.filter((document) => document !== null);
+}
+
+/**
+ * Returns the shared search index, building it from all practice files on first use
+ */
+export function getSearchIndex(): Promise<SearchIndex> {
+  if (!indexPromise) {
+    indexPromise = loadIndexableDocuments()
+      .then((documents) => {
+        const index = createSearchIndex(documents);
+        logger.info("Search index built", { sections: index.sections.length });
+        return index;
+      })
+      .catch((error) => {
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+}
+
+/**
+ * Drops the shared search index so the next search rebuilds it
+ */
+export function resetSearchIndex(): void {
+  indexPromise = null;
+}
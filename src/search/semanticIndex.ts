@@ -0,0 +1,274 @@
+/**
+ * Vector index over the sections of all practice documents for semantic search
+ * Vectors are keyed by a hash of each section's text, so only new or changed
+ * sections are embedded again. With an index directory configured they are
+ * stored there per embedder; otherwise the index lives in memory only
+ */
+
+import path from "path";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { z } from "zod";
+import { getSearchIndex, IndexedSection } from "./searchIndex";
+import { Embedder, getEmbedder } from "./embeddings";
+import { getSectionUri } from "../resources/practices";
+import { logger } from "../utils/logger";
+
+export interface SemanticSection {
+  /** `<topic>/<slug>` */
+  id: string;
+  topic: string;
+  number: string | null;
+  title: string;
+  slug: string;
+  /** First line of the section's prose */
+  snippet: string;
+  /** Hash of the embedded text */
+  hash: string;
+  vector: number[];
+}
+
+export interface SemanticIndex {
+  embedder: string;
+  sections: SemanticSection[];
+}
+
+export interface SemanticResult {
+  topic: string;
+  number: string | null;
+  title: string;
+  slug: string;
+  uri: string;
+  snippet: string;
+  /** Cosine similarity between the query and the section */
+  score: number;
+}
+
+const INDEX_FILE_VERSION = 1;
+const EMBED_BATCH_SIZE = 32;
+/** Embedding models read a limited number of tokens; longer sections are cut */
+const MAX_EMBED_CHARS = 2000;
+const SNIPPET_LENGTH = 160;
+
+const indexFileSchema = z.object({
+  version: z.literal(INDEX_FILE_VERSION),
+  embedder: z.string(),
+  sections: z.array(z.object({ id: z.string(), hash: z.string(), vector: z.array(z.number()) })),
+});
+
+type IndexFile = z.infer<typeof indexFileSchema>;
+
+let indexDir: string | null = null;
+/** Last index built, reused after a reload when there is no index file */
+let lastIndex: SemanticIndex | null = null;
+let indexPromise: { embedder: string; promise: Promise<SemanticIndex> } | null = null;
+
+/**
+ * Sets the directory index files are stored in and drops the loaded index
+ * @param dir - Directory; the index is kept in memory only when omitted
+ */
+export function configureSemanticIndex(dir?: string): void {
+  indexDir = dir ? path.resolve(dir) : null;
+  indexPromise = null;
+  lastIndex = null;
+}
+
+/**
+ * Path of the index file of an embedder, or null when no index directory is configured
+ */
+export function getIndexFilePath(embedder: Embedder): string | null {
+  if (!indexDir) return null;
+  return path.join(indexDir, `semantic-index-${embedder.id.replace(/[^a-z0-9.-]+/gi, "-")}.json`);
+}
+
+function embedText(section: IndexedSection): string {
+  return `${section.title}\n${section.text}`.slice(0, MAX_EMBED_CHARS);
+}
+
+function buildSnippet(text: string): string {
+  let inFence = false;
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (line.startsWith("```")) {
+      inFence = !inFence;
+      continue;
+    }
+    if (line && !inFence) {
+      return line.length > SNIPPET_LENGTH ? `${line.slice(0, SNIPPET_LENGTH - 1)}…` : line;
+    }
+  }
+  return "";
+}
+
+/**
+ * Embeds the sections of the search index, reusing vectors of a previous index
+ * for sections whose text didn't change
+ * @returns The index and the number of sections that were embedded
+ */
+export async function buildSemanticIndex(
+  sections: IndexedSection[],
+  embedder: Embedder,
+  previous?: Pick<IndexFile, "embedder" | "sections"> | null
+): Promise<{ index: SemanticIndex; embedded: number }> {
+  const stored = new Map<string, number[]>();
+  if (previous?.embedder === embedder.id) {
+    for (const { id, hash, vector } of previous.sections) stored.set(`${id} ${hash}`, vector);
+  }
+
+  const entries: SemanticSection[] = sections.map((section) => {
+    const id = `${section.topic}/${section.slug}`;
+    const hash = createHash("sha1").update(embedText(section)).digest("hex").slice(0, 16);
+    return {
+      id,
+      topic: section.topic,
+      number: section.number,
+      title: section.title,
+      slug: section.slug,
+      snippet: buildSnippet(section.text),
+      hash,
+      vector: stored.get(`${id} ${hash}`) ?? [],
+    };
+  });
+
+  const missing = entries
+    .map((entry, position) => ({ entry, text: embedText(sections[position]) }))
+    .filter(({ entry }) => entry.vector.length === 0);
+
+  for (let start = 0; start < missing.length; start += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(start, start + EMBED_BATCH_SIZE);
+    const vectors = await embedder.embed(batch.map(({ text }) => text));
+    batch.forEach(({ entry }, position) => {
+      entry.vector = vectors[position];
+    });
+  }
+
+  return { index: { embedder: embedder.id, sections: entries }, embedded: missing.length };
+}
+
+/**
+ * Reads an index file; missing and invalid files are treated as empty
+ */
+async function readIndexFile(filePath: string): Promise<IndexFile | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if (!(error instanceof Error && "code" in error && error.code === "ENOENT")) {
+      logger.warn("Could not read semantic index", { error: String(error) });
+    }
+    return null;
+  }
+
+  try {
+    const result = indexFileSchema.safeParse(JSON.parse(raw));
+    if (result.success) return result.data;
+    logger.warn("Invalid semantic index ignored", { filePath });
+  } catch {
+    logger.warn("Invalid semantic index ignored", { filePath, error: "Not valid JSON" });
+  }
+  return null;
+}
+
+/**
+ * Writes an index file, replacing it atomically
+ */
+async function writeIndexFile(filePath: string, index: SemanticIndex): Promise<void> {
+  const file: IndexFile = {
+    version: INDEX_FILE_VERSION,
+    embedder: index.embedder,
+    // Six decimals keep rankings intact at a fraction of the size
+    sections: index.sections.map(({ id, hash, vector }) => ({
+      id,
+      hash,
+      vector: vector.map((value) => Math.round(value * 1e6) / 1e6),
+    })),
+  };
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(file));
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Loads the stored index of the current embedder, embeds what changed and saves it
+ */
+async function loadSemanticIndex(embedder: Embedder): Promise<SemanticIndex> {
+  const filePath = getIndexFilePath(embedder);
+  const [{ sections }, previous] = await Promise.all([
+    getSearchIndex(),
+    filePath ? readIndexFile(filePath) : lastIndex,
+  ]);
+  const { index, embedded } = await buildSemanticIndex(sections, embedder, previous);
+  lastIndex = index;
+
+  if (filePath && (embedded > 0 || previous?.sections.length !== index.sections.length)) {
+    await writeIndexFile(filePath, index).catch((error) =>
+      logger.warn("Could not save semantic index", { error: String(error) })
+    );
+  }
+
+  logger.info("Semantic index ready", {
+    embedder: embedder.id,
+    sections: index.sections.length,
+    embedded,
+  });
+  return index;
+}
+
+/**
+ * Returns the shared semantic index of the current embedder, loading it on first use
+ */
+export function getSemanticIndex(): Promise<SemanticIndex> {
+  const embedder = getEmbedder();
+  if (!indexPromise || indexPromise.embedder !== embedder.id) {
+    const promise = loadSemanticIndex(embedder).catch((error) => {
+      indexPromise = null;
+      throw error;
+    });
+    indexPromise = { embedder: embedder.id, promise };
+  }
+  return indexPromise.promise;
+}
+
+/**
+ * Drops the loaded index so the next query checks the sections again
+ */
+export function resetSemanticIndex(): void {
+  indexPromise = null;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Ranks the sections of an index by similarity to a query vector
+ */
+export function querySemanticIndex(
+  index: SemanticIndex,
+  vector: number[],
+  options: { topic?: string; limit?: number } = {}
+): SemanticResult[] {
+  return index.sections
+    .filter((section) => !options.topic || section.topic === options.topic)
+    .map((section) => ({
+      topic: section.topic,
+      number: section.number,
+      title: section.title,
+      slug: section.slug,
+      uri: getSectionUri(section.topic, section.slug),
+      snippet: section.snippet,
+      score: Math.round(cosine(vector, section.vector) * 1000) / 1000,
+    }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit);
+}
@@ -8,18 +8,125 @@ import {
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode,
+  RequestId,
 } from "@modelcontextprotocol/sdk/types.js";
-import { z } from "zod";
-import { PACKAGE_NAME, PACKAGE_VERSION, VALID_TOPICS } from "./types";
-import { getPracticeSchema } from "./validation";
+import { PACKAGE_NAME, PACKAGE_VERSION } from "./types";
+import { isKnownTopic } from "./topics";
+import { getTool, getTools, describeTool, toolErrorResult } from "./tools";
 import { getPractice } from "./tools/getPractice";
+import { getCodeExample } from "./tools/getCodeExamples";
+import { getPracticeGraph } from "./graph/practiceGraph";
+import { loadDocument } from "./documentStore";
 import {
+  getGraphResource,
   getResourceList,
-  isValidResourceUri,
-  extractTopicFromUri,
+  getResourceTemplates,
+  parsePracticeUri,
+  parseResourceUri,
+  PracticeUri,
 } from "./resources/practices";
-import { NotFoundError, SecurityError, FileReadError } from "./utils/errors";
-import { logger } from "./utils/logger";
+import { getPromptList, getPromptMessages } from "./prompts/practicePrompts";
+import { toResourceError } from "./resources/resourceErrors";
+import { onPracticesChanged } from "./watcher";
+import { recordRequest, measure, errorClass, RequestRecord } from "./metrics";
+import { NotFoundError, ValidationError } from "./utils/errors";
+import { findSection } from "./utils/markdown";
+import { logger, Logger } from "./utils/logger";
+import { createMcpLogger } from "./utils/mcpLogSink";
+
+/**
+ * Creates a logger tagging every entry with the request (and HTTP session) it belongs to
+ */
+function requestLogger(serverLog: Logger, extra: { requestId: RequestId; sessionId?: string }): Logger {
+  return serverLog.child({
+    requestId: extra.requestId,
+    ...(extra.sessionId && { sessionId: extra.sessionId }),
+  });
+}
+
+/**
+ * Resolves a section selector to the section's slug, for metrics
+ * Selectors are matched loosely ("2.1", "Query Keys!!", "query--keys"), so recording them as
+ * given would let any client add labels without bound
+ * @returns The slug, or undefined if the section doesn't exist
+ */
+async function resolveSectionSlug(topic: string, selector: string, version?: string): Promise<string | undefined> {
+  try {
+    return findSection((await loadDocument(topic, version)).document, selector)?.slug;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Describes a tool call for metrics
+ * Only known topics and the slugs of existing sections are recorded, so arbitrary input can't
+ * grow the metrics without bound
+ */
+async function toolUsage(
+  name: string,
+  args: Record<string, unknown> | undefined
+): Promise<Omit<RequestRecord, "durationMs">> {
+  if (!getTool(name)) return { operation: "tool:unknown" };
+
+  const topic = typeof args?.topic === "string" && isKnownTopic(args.topic) ? args.topic : undefined;
+  const version = typeof args?.version === "string" ? args.version : undefined;
+  const section =
+    topic && typeof args?.section === "string" ? await resolveSectionSlug(topic, args.section, version) : undefined;
+  return { operation: `tool:${name}`, topic, section };
+}
+
+/**
+ * Describes a resource read for metrics
+ */
+async function resourceUsage(resource: PracticeUri): Promise<Omit<RequestRecord, "durationMs">> {
+  switch (resource.kind) {
+    case "graph":
+      return { operation: "resource:graph" };
+    case "section":
+      return {
+        operation: "resource:section",
+        topic: resource.topic,
+        section: await resolveSectionSlug(resource.topic, resource.section),
+      };
+    case "example":
+      return { operation: "resource:example", topic: resource.topic, section: `examples/${resource.index}` };
+    default:
+      return { operation: "resource:document", topic: resource.topic };
+  }
+}
+
+/**
+ * Error for URIs that aren't the graph URI or well-formed practice:// document, section or example URIs
+ */
+function invalidResourceUri(uri: string): ValidationError {
+  return new ValidationError(`Invalid resource URI: ${uri}`);
+}
+
+/**
+ * Reads the content a practice:// URI points to
+ */
+async function readResource(resource: PracticeUri): Promise<{ text: string; mimeType: string }> {
+  const markdown = (text: string) => ({ text, mimeType: "text/markdown" });
+
+  switch (resource.kind) {
+    case "graph":
+      return { text: JSON.stringify(await getPracticeGraph(), null, 2), mimeType: "application/json" };
+    case "section":
+      return markdown(await getPractice({ topic: resource.topic, section: resource.section }));
+    case "example":
+      return markdown(await getCodeExample(resource.topic, resource.index));
+    default:
+      return markdown(await getPractice({ topic: resource.topic }));
+  }
+}
 
 /**
  * Creates and configures the MCP server
@@ -29,50 +136,44 @@ export function createServer(): Server {
     { name: PACKAGE_NAME, version: PACKAGE_VERSION },
     {
       capabilities: {
-        resources: {},
+        resources: { subscribe: true, listChanged: true },
         tools: {},
+        prompts: {},
+        logging: {},
       },
     }
   );
+  // Entries of this server's requests, which its client may receive once it sets a level
+  const serverLog = createMcpLogger(server);
 
   /**
    * Handler for ListToolsRequestSchema
-   * Returns available tools
+   * Returns the registered tools
    */
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     logger.debug("ListTools request received");
     return {
-      tools: [
-        {
-          name: "get_best_practice",
-          description: "Retrieve best practice documentation for a given topic",
-          inputSchema: {
-            type: "object",
-            properties: {
-              topic: {
-                type: "string",
-                enum: VALID_TOPICS,
-                description: `Topic to fetch best practices for (${VALID_TOPICS.join(
-                  ", "
-                )})`,
-              },
-            },
-            required: ["topic"],
-          },
-        },
-      ],
+      tools: getTools().map(describeTool),
     };
   });
 
   /**
    * Handler for CallToolRequestSchema
-   * Executes tools
+   * Validates the arguments against the tool's schema and runs its handler
    */
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    logger.debug("CallTool request received", { tool: request.params.name });
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const log = requestLogger(serverLog, extra);
+    log.debug("CallTool request received", { tool: request.params.name });
 
-    if (request.params.name !== "get_best_practice") {
-      logger.warn("Unknown tool requested", { tool: request.params.name });
+    const started = performance.now();
+    const usage = await toolUsage(request.params.name, request.params.arguments);
+    const record = (error?: string) =>
+      recordRequest({ ...usage, durationMs: performance.now() - started, error });
+
+    const tool = getTool(request.params.name);
+    if (!tool) {
+      log.warn("Unknown tool requested", { tool: request.params.name });
+      record("NotFoundError");
       return {
         isError: true,
         content: [
@@ -82,132 +183,160 @@ export function createServer(): Server {
     }
 
     try {
-      const args = getPracticeSchema.parse(request.params.arguments);
-      const content = await getPractice(args);
+      const args = tool.inputSchema.parse(request.params.arguments ?? {});
+      const output = await tool.handler(args, { log });
+      const { text, structuredContent } = typeof output === "string" ? { text: output } : output;
 
-      return {
-        content: [{ type: "text/markdown", text: content }],
-      };
-    } catch (error) {
-      // Validation error
-      if (error instanceof z.ZodError) {
-        const errorMessages = error.issues
-          .map((issue) => issue.message)
-          .join(", ");
-        logger.warn("Validation error", { errors: errorMessages });
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `Invalid input: ${errorMessages}`,
-            },
-          ],
-        };
-      }
+      record();
 
-      // File not found
-      if (error instanceof NotFoundError) {
-        logger.info("Resource not found", { message: error.message });
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: `${error.message}. Available topics: ${VALID_TOPICS.join(
-                ", "
-              )}`,
-            },
-          ],
-        };
-      }
-
-      // Security error
-      if (error instanceof SecurityError) {
-        logger.error("Security violation", error);
-        return {
-          isError: true,
-          content: [{ type: "text", text: "Access denied" }],
-        };
-      }
-
-      // File read error
-      if (error instanceof FileReadError) {
-        logger.error("File read error", error);
-        return {
-          isError: true,
-          content: [
-            {
-              type: "text",
-              text: "An error occurred while retrieving the best practice",
-            },
-          ],
-        };
-      }
-
-      // Unexpected error
-      logger.error("Unexpected error in tool handler", error);
       return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: "An unexpected error occurred",
-          },
-        ],
+        content: [{ type: "text", text }],
+        ...(structuredContent && { structuredContent }),
       };
+    } catch (error) {
+      record(errorClass(error));
+      return toolErrorResult(error, log);
     }
   });
 
   /**
    * Handler for ListResourcesRequestSchema
-   * Returns available resources
+   * Returns available practices and the graph
    */
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
     logger.debug("ListResources request received");
     return {
-      resources: getResourceList(),
+      resources: [...getResourceList(), getGraphResource()],
+    };
+  });
+
+  /**
+   * Handler for ListResourceTemplatesRequestSchema
+   * Returns the templates for section and code example URIs
+   */
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    logger.debug("ListResourceTemplates request received");
+    return {
+      resourceTemplates: getResourceTemplates(),
     };
   });
 
   /**
    * Handler for ReadResourceRequestSchema
-   * Reads a specific resource
+   * Reads a whole document, a single section, a single code example or the graph
    */
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    logger.debug("ReadResource request received", { uri: request.params.uri });
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const log = requestLogger(serverLog, extra);
+    log.debug("ReadResource request received", { uri: request.params.uri });
 
-    if (!isValidResourceUri(request.params.uri)) {
-      logger.warn("Invalid resource URI", { uri: request.params.uri });
-      throw new Error(`Invalid resource URI: ${request.params.uri}`);
+    const resource = parseResourceUri(request.params.uri);
+    if (!resource) {
+      // A well-formed URI names a topic that doesn't exist; anything else is malformed
+      const unknown = parsePracticeUri(request.params.uri);
+      if (unknown && unknown.kind !== "graph") {
+        recordRequest({ operation: `resource:${unknown.kind}`, durationMs: 0, error: "NotFoundError" });
+        throw toResourceError(new NotFoundError(`Topic: ${unknown.topic}`), request.params.uri, log);
+      }
+      recordRequest({ operation: "resource:invalid", durationMs: 0, error: "ValidationError" });
+      throw toResourceError(invalidResourceUri(request.params.uri), request.params.uri, log);
     }
 
     try {
-      const topic = extractTopicFromUri(request.params.uri);
-      if (!topic) {
-        throw new Error(
-          `Could not extract topic from URI: ${request.params.uri}`
-        );
-      }
-
-      const content = await getPractice({ topic });
+      const { text, mimeType } = await measure(await resourceUsage(resource), () => readResource(resource));
 
       return {
         contents: [
           {
             uri: request.params.uri,
-            mimeType: "text/markdown",
-            text: content,
+            mimeType,
+            text,
           },
         ],
       };
     } catch (error) {
-      logger.error("Failed to read resource", error);
-      throw new Error(
-        `Failed to read resource: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      );
+      throw toResourceError(error, request.params.uri, log);
+    }
+  });
+
+  /**
+   * URIs this client subscribed to; updates are only sent for these
+   */
+  const subscriptions = new Set<string>();
+
+  /**
+   * Handler for SubscribeRequestSchema
+   * Subscribes to updates of a document, section or code example
+   */
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const log = requestLogger(serverLog, extra);
+    log.debug("Subscribe request received", { uri: request.params.uri });
+
+    if (!parseResourceUri(request.params.uri)) {
+      throw toResourceError(invalidResourceUri(request.params.uri), request.params.uri, log);
+    }
+
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  /**
+   * Handler for UnsubscribeRequestSchema
+   */
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    logger.debug("Unsubscribe request received", { uri: request.params.uri });
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Tell the client when practice files change in watch mode
+  const stopListening = onPracticesChanged(({ topics }) => {
+    const notify = (send: () => Promise<void>) =>
+      send().catch((error) => logger.debug("Could not send notification", { error: String(error) }));
+
+    notify(() => server.sendResourceListChanged());
+
+    for (const uri of subscriptions) {
+      // The graph spans every topic
+      const resource = parseResourceUri(uri);
+      if (!resource || resource.kind === "graph" || topics.includes(resource.topic)) {
+        notify(() => server.sendResourceUpdated({ uri }));
+      }
+    }
+  });
+
+  server.onclose = () => {
+    stopListening();
+  };
+
+  /**
+   * Handler for ListPromptsRequestSchema
+   * Returns available prompts
+   */
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    logger.debug("ListPrompts request received");
+    return {
+      prompts: getPromptList(),
+    };
+  });
+
+  /**
+   * Handler for GetPromptRequestSchema
+   * Builds a prompt with its practice sections embedded as resources
+   */
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const log = requestLogger(serverLog, extra);
+    log.debug("GetPrompt request received", { prompt: request.params.name });
+
+    try {
+      return await getPromptMessages(request.params.name, request.params.arguments);
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        log.warn("Invalid prompt request", { message: error.message });
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+
+      log.error("Failed to build prompt", error);
+      throw new McpError(ErrorCode.InternalError, "An unexpected error occurred");
     }
   });
 
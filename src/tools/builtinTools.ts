@@ -0,0 +1,139 @@
+/**
+ * Tools that ship with the server
+ */
+
+import {
+  getPracticeSchema,
+  listSectionsSchema,
+  searchPracticesSchema,
+  getCodeExamplesSchema,
+  reviewCodeSchema,
+  getServerStatsSchema,
+  recommendPracticesSchema,
+  composePracticesSchema,
+  getChecklistSchema,
+  relatedPracticesSchema,
+  findPracticeSchema,
+} from "../validation";
+import { defineTool, ToolDefinition } from "./registry";
+import { getPracticeOutput } from "./getPractice";
+import { listSections } from "./listSections";
+import { searchPractices } from "./searchPractices";
+import { getCodeExamples } from "./getCodeExamples";
+import { reviewCode } from "./reviewCode";
+import { getServerStats } from "./getServerStats";
+import { recommendPractices } from "./recommendPractices";
+import { composePractices } from "./composePractices";
+import { getChecklist, getChecklistOutputJsonSchema } from "./getChecklist";
+import { relatedPractices, getRelatedPracticesOutputJsonSchema } from "./relatedPractices";
+import { findPractice, getFindPracticeOutputJsonSchema } from "./findPractice";
+import { describeTopics } from "../resources/practices";
+import { getPracticeOutputJsonSchema } from "../utils/structuredDocument";
+import { getProjectRoots } from "../projects";
+import { getEmbedder } from "../search/embeddings";
+
+/**
+ * Every built-in tool only reads practice documents, metrics or project files
+ */
+const READ_ONLY = { readOnlyHint: true, openWorldHint: false };
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: "get_best_practice",
+    description: () =>
+      `Retrieve best practice documentation for a given topic. Available topics:\n${describeTopics()}`,
+    inputSchema: getPracticeSchema,
+    outputSchema: getPracticeOutputJsonSchema(),
+    annotations: { title: "Get Best Practice", ...READ_ONLY },
+    handler: (args) => getPracticeOutput(args),
+  }),
+  defineTool({
+    name: "list_practice_sections",
+    description: "List the table of contents of a best practice document, with section numbers and slugs",
+    inputSchema: listSectionsSchema,
+    annotations: { title: "List Practice Sections", ...READ_ONLY },
+    handler: (args) => listSections(args),
+  }),
+  defineTool({
+    name: "search_best_practices",
+    description: "Search all best practice documents and return ranked matching sections with snippets",
+    inputSchema: searchPracticesSchema,
+    annotations: { title: "Search Best Practices", ...READ_ONLY },
+    handler: (args) => searchPractices(args),
+  }),
+  defineTool({
+    name: "find_practice",
+    description: () =>
+      `Find the sections closest to a question, e.g. "avoid re-renders when reading store". ${
+        getEmbedder().id.startsWith("transformers:")
+          ? "Matches by meaning, even when the section uses different words"
+          : "No embedding model is configured, so sections are matched by hashed words and word parts, not synonyms"
+      }. Complements the keyword search of search_best_practices`,
+    inputSchema: findPracticeSchema,
+    outputSchema: getFindPracticeOutputJsonSchema(),
+    annotations: { title: "Find Practice", ...READ_ONLY },
+    handler: (args) => findPractice(args),
+  }),
+  defineTool({
+    name: "get_code_examples",
+    description:
+      "Get the code examples of a best practice document, each with its section heading and the sentence that introduces it",
+    inputSchema: getCodeExamplesSchema,
+    annotations: { title: "Get Code Examples", ...READ_ONLY },
+    handler: (args) => getCodeExamples(args),
+  }),
+  defineTool({
+    name: "review_code",
+    description:
+      "Review a code snippet against the best practice rules and return findings linked to the practice sections they come from. Topics are detected from the snippet's imports unless one is given",
+    inputSchema: reviewCodeSchema,
+    annotations: { title: "Review Code", ...READ_ONLY },
+    handler: (args) => reviewCode(args),
+  }),
+  defineTool({
+    name: "get_server_stats",
+    description:
+      "Report request counts, latencies, error classes and the most requested practice topics and sections since metrics recording started",
+    inputSchema: getServerStatsSchema,
+    annotations: { title: "Get Server Stats", ...READ_ONLY },
+    handler: (args) => getServerStats(args),
+  }),
+  defineTool({
+    name: "recommend_practices",
+    description: () =>
+      `Recommend the practice topics that apply to a project from its package.json, with detected dependency versions and gaps against the recommended stack. ${
+        getProjectRoots().length > 0
+          ? "Pass either the file's contents or a path to it"
+          : "Pass the file's contents; reading it by path is disabled on this server"
+      }`,
+    inputSchema: recommendPracticesSchema,
+    annotations: { title: "Recommend Practices", ...READ_ONLY },
+    handler: (args) => recommendPractices(args),
+  }),
+  defineTool({
+    name: "compose_practices",
+    description:
+      "Compose one guide from several topics, e.g. nextjs + tanstack-query + zustand. Sections covering the same ground in different topics are merged, every section names its source, and sections that don't fit the token budget are listed with their practice:// URIs",
+    inputSchema: composePracticesSchema,
+    annotations: { title: "Compose Practices", ...READ_ONLY },
+    handler: (args) => composePractices(args),
+  }),
+  defineTool({
+    name: "get_checklist",
+    description:
+      "Extract the actionable items of a topic, or one of its sections, as a checklist for PR templates and reviews. Every item has an ID derived from its section and text, so it stays the same when the guide is reordered",
+    inputSchema: getChecklistSchema,
+    outputSchema: getChecklistOutputJsonSchema(),
+    annotations: { title: "Get Checklist", ...READ_ONLY },
+    handler: (args) => getChecklist(args),
+  }),
+  defineTool({
+    name: "related_practices",
+    description:
+      "Find the sections of other topics connected to a section, e.g. the Zustand guide from Next.js's state management section. Sections are connected by practice:// links, mentions of a topic by name, shared distinctive terms and topics declared as related; the full graph is the practice://graph resource",
+    inputSchema: relatedPracticesSchema,
+    outputSchema: getRelatedPracticesOutputJsonSchema(),
+    annotations: { title: "Related Practices", ...READ_ONLY },
+    handler: (args) => relatedPractices(args),
+  }),
+];
@@ -0,0 +1,272 @@
+/**
+ * Tool implementation for composing one guide out of several topics
+ * Sections that cover the same ground in different topics are merged into
+ * one, and sections are added until the token budget is used up
+ */
+
+import { ComposePracticesInput } from "../validation";
+import { loadDocument } from "../documentStore";
+import { getTopic } from "../topics";
+import { getSearchIndex, searchIndex, tokenize } from "../search/searchIndex";
+import { getSectionUri } from "../resources/practices";
+import { flattenSections, Section } from "../utils/markdown";
+import { estimateTokens } from "../utils/tokens";
+import { logger } from "../utils/logger";
+
+export interface ComposedSection {
+  topic: string;
+  section: Section;
+  /** Text of the section itself, excluding its heading and subsections */
+  text: string;
+  terms: Set<string>;
+  titleTerms: Set<string>;
+  /** Position in the composed guide: topics in the order given, then document order */
+  order: number;
+  /** Relevance to the focus, 0 without one */
+  score: number;
+  /** Sections of other topics merged into this one */
+  alsoIn: ComposedSection[];
+}
+
+/** Sections with fewer distinct terms are too short to compare */
+const MIN_TERMS = 5;
+/** Share of the smaller section's terms both sections contain */
+const CONTENT_OVERLAP = 0.45;
+/** Shared terms relative to the terms of both sections */
+const CONTENT_SIMILARITY = 0.2;
+/** Sections with similar titles need less content overlap */
+const TITLE_SIMILARITY = 0.6;
+const TITLE_CONTENT_OVERLAP = 0.25;
+
+const OMITTED_HEADING = "## Omitted to Fit the Token Budget";
+const OMITTED_HINT = "Fetch these with `get_best_practice` or their resource URIs:";
+
+function countShared(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = countShared(a, b);
+  return shared / (a.size + b.size - shared || 1);
+}
+
+/**
+ * Checks whether two sections of different topics cover the same ground
+ */
+export function isOverlapping(a: ComposedSection, b: ComposedSection): boolean {
+  if (a.topic === b.topic || Math.min(a.terms.size, b.terms.size) < MIN_TERMS) return false;
+
+  const overlap = countShared(a.terms, b.terms) / Math.min(a.terms.size, b.terms.size);
+  if (overlap >= CONTENT_OVERLAP && jaccard(a.terms, b.terms) >= CONTENT_SIMILARITY) return true;
+  return jaccard(a.titleTerms, b.titleTerms) >= TITLE_SIMILARITY && overlap >= TITLE_CONTENT_OVERLAP;
+}
+
+/**
+ * Whether a section is about its own topic specifically, e.g. "Testing Your Zustand Store"
+ */
+function isSpecific(unit: ComposedSection): boolean {
+  const names = tokenize(`${unit.topic} ${getTopic(unit.topic)?.metadata.name ?? ""}`);
+  return names.some((name) => unit.titleTerms.has(name));
+}
+
+/**
+ * Merges overlapping sections into the one that should represent them:
+ * a section about its own topic first, then the most complete one
+ * @returns The sections that are kept, with the merged ones in `alsoIn`
+ */
+export function mergeOverlapping(units: ComposedSection[]): ComposedSection[] {
+  const ranked = [...units].sort(
+    (a, b) =>
+      Number(isSpecific(b)) - Number(isSpecific(a)) || b.terms.size - a.terms.size || a.order - b.order
+  );
+
+  const kept: ComposedSection[] = [];
+  for (const unit of ranked) {
+    const covering = kept.find((candidate) => isOverlapping(candidate, unit));
+    if (covering) {
+      covering.alsoIn.push(unit);
+    } else {
+      kept.push(unit);
+    }
+  }
+  return kept.sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Section number, or slug for unnumbered sections, as accepted by get_best_practice
+ */
+function sectionReference(section: Section): string {
+  return section.number ?? section.slug;
+}
+
+function describeSection(topic: string, section: Section): string {
+  return `${topic} › ${section.number ? `${section.number} ` : ""}${section.title}`;
+}
+
+/**
+ * Renders a section with its source and the sections merged into it
+ */
+function formatSection(unit: ComposedSection): string {
+  const { section } = unit;
+  const heading = "#".repeat(Math.min(6, section.level + 2));
+  const number = section.number ? `${section.number} ` : "";
+  const lines = [
+    `${heading} ${number}${section.title}`,
+    "",
+    `_Source: ${describeSection(unit.topic, section)} (${getSectionUri(unit.topic, section.slug)})_`,
+  ];
+  if (unit.alsoIn.length > 0) {
+    const merged = unit.alsoIn.map((other) => describeSection(other.topic, other.section));
+    lines.push(`_Also covered in: ${merged.join("; ")}_`);
+  }
+  return [...lines, "", unit.text].join("\n");
+}
+
+/**
+ * Collects the sections of each topic that have text of their own
+ */
+async function collectSections(topics: string[]): Promise<ComposedSection[]> {
+  const units: ComposedSection[] = [];
+
+  for (const topic of topics) {
+    const { document } = await loadDocument(topic);
+    for (const section of flattenSections(document.sections)) {
+      const end = section.children.length > 0 ? section.children[0].line - 1 : section.endLine;
+      const text = document.lines.slice(section.line, end).join("\n").trim();
+      if (!text) continue;
+
+      units.push({
+        topic,
+        section,
+        text,
+        terms: new Set(tokenize(text)),
+        titleTerms: new Set(tokenize(section.title)),
+        order: units.length,
+        score: 0,
+        alsoIn: [],
+      });
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Composes a single guide from several topics
+ * @param args - Input arguments containing the topics, an optional focus and a token budget
+ * @returns A markdown guide with source attributions, merged duplicates and omitted sections
+ * @throws NotFoundError if a topic's file doesn't exist
+ * @throws FileTooLargeError if a file exceeds the configured size limit
+ * @throws FileReadError for other file system errors
+ */
+export async function composePractices(args: ComposePracticesInput): Promise<string> {
+  let units = await collectSections(args.topics);
+  const names = args.topics.map((topic) => getTopic(topic)?.metadata.name ?? topic);
+  const title = `# Composed Practices: ${names.join(" + ")}`;
+
+  if (args.focus) {
+    const scores = new Map(
+      searchIndex(await getSearchIndex(), args.focus)
+        .filter(({ topic }) => args.topics.includes(topic))
+        .map(({ topic, slug, score }) => [`${topic}/${slug}`, score])
+    );
+    units = units
+      .map((unit) => ({ ...unit, score: scores.get(`${unit.topic}/${unit.section.slug}`) ?? 0 }))
+      .filter(({ score }) => score > 0);
+
+    if (units.length === 0) {
+      return `${title}\n\nNo sections of ${args.topics.join(", ")} match "${args.focus}".`;
+    }
+  }
+
+  const kept = mergeOverlapping(units);
+  const merged = units.length - kept.length;
+
+  const header = [
+    title,
+    "",
+    ...(args.focus ? [`Focus: **${args.focus}** — most relevant sections first when trimming.`] : []),
+    `Sources: ${args.topics.join(", ")}.${
+      merged > 0 ? ` ${merged} overlapping sections were merged into the ones marked "Also covered in".` : ""
+    }`,
+  ].join("\n");
+
+  // With a focus the most relevant sections claim the budget first. Without one the
+  // topics take turns, so the first topic can't use up the budget on its own.
+  const position = new Map<ComposedSection, number>();
+  for (const topic of args.topics) {
+    kept.filter((unit) => unit.topic === topic).forEach((unit, index) => position.set(unit, index));
+  }
+  const candidates = [...kept].sort((a, b) =>
+    args.focus
+      ? b.score - a.score || a.order - b.order
+      : position.get(a)! - position.get(b)! || a.order - b.order
+  );
+  const topicHeadings = args.topics.reduce(
+    (sum, topic, index) => sum + estimateTokens(`\n\n## ${names[index]} (${topic})`),
+    0
+  );
+
+  // Room for listing every section as omitted is reserved up front and released
+  // as sections are included, so the list always fits in the budget too
+  const omissionCost = (unit: ComposedSection) => estimateTokens(`${sectionReference(unit.section)}, `);
+  const listCost =
+    estimateTokens(`\n\n${OMITTED_HEADING}\n\n${OMITTED_HINT}`) +
+    args.topics.reduce((sum, topic) => sum + estimateTokens(`\n- ${topic} (${getSectionUri(topic, "")}<section>): `), 0) +
+    estimateTokens(`\n\n---\n~${args.max_tokens} of ${args.max_tokens} tokens`);
+  let reserved = candidates.reduce((sum, unit) => sum + omissionCost(unit), 0);
+  let used = estimateTokens(header) + topicHeadings + listCost;
+  const included = new Set<ComposedSection>();
+  const omitted: ComposedSection[] = [];
+
+  for (const unit of candidates) {
+    reserved -= omissionCost(unit);
+    const cost = estimateTokens(`\n\n${formatSection(unit)}`);
+    if (used + cost + reserved <= args.max_tokens) {
+      included.add(unit);
+      used += cost;
+    } else {
+      omitted.push(unit);
+      used += omissionCost(unit);
+    }
+  }
+
+  logger.debug("Composed practices", {
+    topics: args.topics,
+    focus: args.focus,
+    sections: included.size,
+    merged,
+    omitted: omitted.length,
+    tokens: used,
+  });
+
+  const lines = [header];
+  args.topics.forEach((topic, index) => {
+    const sections = kept.filter((unit) => unit.topic === topic && included.has(unit));
+    if (sections.length === 0) return;
+    lines.push("", `## ${names[index]} (${topic})`);
+    for (const unit of sections) {
+      lines.push("", formatSection(unit));
+    }
+  });
+
+  if (omitted.length > 0) {
+    lines.push("", OMITTED_HEADING, "", OMITTED_HINT);
+    for (const topic of args.topics) {
+      const references = omitted
+        .filter((unit) => unit.topic === topic)
+        .sort((a, b) => a.order - b.order)
+        .map((unit) => sectionReference(unit.section));
+      if (references.length > 0) {
+        lines.push(`- ${topic} (${getSectionUri(topic, "")}<section>): ${references.join(", ")}`);
+      }
+    }
+  }
+
+  lines.push("", `---`, `~${used} of ${args.max_tokens} tokens`);
+  return lines.join("\n");
+}
@@ -0,0 +1,79 @@
+/**
+ * Tool implementation for semantic search across all practice documents
+ * Finds sections by meaning rather than shared keywords, using the embedding index
+ */
+
+import { z } from "zod";
+import { FindPracticeInput } from "../validation";
+import { getEmbedder } from "../search/embeddings";
+import { getSemanticIndex, querySemanticIndex } from "../search/semanticIndex";
+import { logger } from "../utils/logger";
+
+const findPracticeResultSchema = z.object({
+  topic: z.string(),
+  number: z.string().nullable(),
+  title: z.string(),
+  slug: z.string(),
+  uri: z.string().describe("practice:// URI of the section"),
+  snippet: z.string(),
+  score: z.number().describe("Cosine similarity between the query and the section"),
+});
+
+/**
+ * Schema for the structuredContent of find_practice
+ */
+export const findPracticeOutputSchema = z.object({
+  query: z.string(),
+  embedder: z.string().describe("Embedder the index was built with"),
+  results: z.array(findPracticeResultSchema),
+});
+
+export type FindPracticeOutput = z.infer<typeof findPracticeOutputSchema>;
+
+/**
+ * JSON Schema of findPracticeOutputSchema, declared as the tool's outputSchema
+ */
+export function getFindPracticeOutputJsonSchema() {
+  const { $schema: _schema, ...schema } = z.toJSONSchema(findPracticeOutputSchema, { target: "draft-7" });
+  return schema as { type: "object"; [key: string]: unknown };
+}
+
+/**
+ * Finds the sections closest in meaning to a query
+ * @param args - Input arguments containing the query, optional topic filter and limit
+ * @returns The top sections as markdown, and as structured content
+ */
+export async function findPractice(
+  args: FindPracticeInput
+): Promise<{ text: string; structuredContent: FindPracticeOutput }> {
+  const index = await getSemanticIndex();
+  const [vector] = await getEmbedder().embed([args.query]);
+  const results = querySemanticIndex(index, vector, { topic: args.topic, limit: args.limit });
+  const structuredContent: FindPracticeOutput = { query: args.query, embedder: index.embedder, results };
+
+  logger.debug("Semantic search completed", { query: args.query, results: results.length });
+
+  if (results.length === 0) {
+    return { text: `No sections found for "${args.query}".`, structuredContent };
+  }
+
+  const lines = results.map((result, position) => {
+    const number = result.number ? `${result.number} ` : "";
+    return [
+      `${position + 1}. **${result.topic} › ${number}${result.title}** (similarity: ${result.score})`,
+      `   ${result.uri}`,
+      ...(result.snippet ? [`   ${result.snippet}`] : []),
+    ].join("\n");
+  });
+
+  return {
+    text: [
+      `# Sections for "${args.query}"`,
+      "",
+      ...lines,
+      "",
+      "Read a result through its URI, or with `get_best_practice` using its topic and section.",
+    ].join("\n"),
+    structuredContent,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Tool implementation for turning practice documents into checklists
+ * Collects the ✅ rules, task list items and the items of checklist sections
+ * (e.g. "Performance Checklist") under IDs that survive reordering
+ */
+
+import { createHash } from "crypto";
+import { z } from "zod";
+import { GetChecklistInput } from "../validation";
+import { loadDocument } from "../documentStore";
+import { getTopic } from "../topics";
+import { getSectionUri } from "../resources/practices";
+import { SectionNotFoundError } from "../utils/errors";
+import { findSection, MarkdownDocument, Section, slugify } from "../utils/markdown";
+import { logger } from "../utils/logger";
+
+const checklistItemSchema = z.object({
+  id: z.string().describe("Stable ID: topic, heading slug and a hash of the heading path and the item's text"),
+  text: z.string(),
+  section: z.object({
+    number: z.string().nullable(),
+    title: z.string(),
+    slug: z.string(),
+  }),
+  uri: z.string().describe("practice:// URI of the section the item comes from"),
+});
+
+/**
+ * Schema for the structuredContent of get_checklist
+ */
+export const checklistOutputSchema = z.object({
+  format: z.enum(["markdown", "json"]),
+  topic: z.string(),
+  version: z.string(),
+  section: z.string().optional().describe("Slug of the requested section, if any"),
+  items: z.array(checklistItemSchema),
+});
+
+export type ChecklistItem = z.infer<typeof checklistItemSchema>;
+export type ChecklistOutput = z.infer<typeof checklistOutputSchema>;
+
+/**
+ * JSON Schema of checklistOutputSchema, declared as the tool's outputSchema
+ */
+export function getChecklistOutputJsonSchema() {
+  const { $schema: _schema, ...schema } = z.toJSONSchema(checklistOutputSchema, { target: "draft-7" });
+  return schema as { type: "object"; [key: string]: unknown };
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const LIST_MARKER_PATTERN = /^(?:[-*+]|\d+[.)])\s+/;
+const TASK_PATTERN = /^\[[ xX]\]\s+/;
+/** Sections whose items are all actionable, including their subsections */
+const CHECKLIST_TITLE_PATTERN = /checklist|playbook/i;
+/** A line labelling the lines after it as a checklist, e.g. "Checklist" */
+const CHECKLIST_LABEL_PATTERN = /^(?:quick\s+)?checklists?:?$/i;
+
+/**
+ * Slug of a heading without the counter that tells duplicate headings apart,
+ * which would change when a heading with the same title is added before it
+ */
+function headingSlug(section: Section): string {
+  return slugify(section.title) || section.slug;
+}
+
+/**
+ * Derives an item's ID from the slugs of its heading and the headings above it,
+ * and its normalized text, so it stays the same when items or sections are
+ * reordered, renumbered or inserted
+ */
+export function checklistItemId(topic: string, headingPath: string[], text: string): string {
+  const hash = createHash("sha1")
+    .update(`${headingPath.join("/")}\n${text.toLowerCase()}`)
+    .digest("hex")
+    .slice(0, 8);
+  return `${topic}.${headingPath[headingPath.length - 1]}.${hash}`;
+}
+
+function normalizeItem(text: string): string {
+  return text.replace(/\s+/g, " ").trim().replace(/^Do:\s*/i, "");
+}
+
+/**
+ * Extracts the actionable items of a section's own lines, excluding subsections
+ * - lines marked with ✅ and task list items anywhere
+ * - every list item, line and table row of a checklist section or after a "Checklist" label
+ * Tab-separated tables skip their header row; a checklist made of a table ends with it.
+ */
+function extractSectionItems(document: MarkdownDocument, section: Section, inChecklist: boolean): string[] {
+  const end = section.children.length > 0 ? section.children[0].line - 1 : section.endLine;
+  const items: string[] = [];
+  let checklist = inChecklist;
+  let inFence = false;
+  let inTable = false;
+
+  for (const rawLine of document.lines.slice(section.line, end)) {
+    if (FENCE_PATTERN.test(rawLine)) {
+      inFence = !inFence;
+      continue;
+    }
+    const line = rawLine.trim();
+    if (inFence || !line) continue;
+
+    if (line.includes("\t")) {
+      const cells = line.split("\t").map((cell) => cell.trim()).filter(Boolean);
+      if (!inTable) {
+        inTable = true;
+        continue;
+      }
+      const marked = cells[0]?.startsWith("✅");
+      if (cells[0]?.startsWith("❌") || (!marked && !checklist)) continue;
+      const text = cells.map((cell) => cell.replace(/^✅\s*/, "")).filter(Boolean).join(": ");
+      if (text) items.push(normalizeItem(text));
+      continue;
+    }
+
+    if (inTable) {
+      inTable = false;
+      checklist = false;
+    }
+
+    if (CHECKLIST_LABEL_PATTERN.test(line)) {
+      checklist = true;
+      continue;
+    }
+
+    const text = line.replace(LIST_MARKER_PATTERN, "");
+    if (text.startsWith("✅")) {
+      items.push(normalizeItem(text.slice("✅".length)));
+    } else if (TASK_PATTERN.test(text)) {
+      items.push(normalizeItem(text.replace(TASK_PATTERN, "")));
+    } else if (checklist && !text.startsWith("❌") && !text.endsWith(":")) {
+      items.push(normalizeItem(text));
+    }
+  }
+
+  return items.filter(Boolean);
+}
+
+/**
+ * Returns the heading slugs of a section's ancestors, outermost first, or null if it isn't among the sections
+ */
+function parentPath(sections: Section[], target: Section): string[] | null {
+  for (const section of sections) {
+    if (section === target) return [];
+    const path = parentPath(section.children, target);
+    if (path) return [headingSlug(section), ...path];
+  }
+  return null;
+}
+
+/**
+ * Builds the checklist of a document, or of some of its sections with their subsections
+ */
+export function extractChecklist(
+  topic: string,
+  document: MarkdownDocument,
+  sections: Section[] = document.sections
+): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  const seen = new Set<string>();
+
+  const visit = (section: Section, inChecklist: boolean, parents: string[]) => {
+    const checklist = inChecklist || CHECKLIST_TITLE_PATTERN.test(section.title);
+    const headingPath = [...parents, headingSlug(section)];
+
+    for (const text of extractSectionItems(document, section, checklist)) {
+      const id = checklistItemId(topic, headingPath, text);
+      if (seen.has(id)) continue;
+      seen.add(id);
+      items.push({
+        id,
+        text,
+        section: { number: section.number, title: section.title, slug: section.slug },
+        uri: getSectionUri(topic, section.slug),
+      });
+    }
+
+    section.children.forEach((child) => visit(child, checklist, headingPath));
+  };
+
+  sections.forEach((section) => visit(section, false, parentPath(document.sections, section) ?? []));
+  return items;
+}
+
+/**
+ * Renders a checklist as markdown task lists grouped by section
+ * IDs go in HTML comments, so the list can be pasted into PR templates as is
+ */
+function formatChecklist(title: string, items: ChecklistItem[]): string {
+  const lines = [`# Checklist: ${title}`];
+  let slug: string | null = null;
+
+  for (const item of items) {
+    if (item.section.slug !== slug) {
+      slug = item.section.slug;
+      const number = item.section.number ? `${item.section.number} ` : "";
+      lines.push("", `## ${number}${item.section.title}`, "");
+    }
+    lines.push(`- [ ] ${item.text} <!-- ${item.id} -->`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates a checklist for a topic, or one of its sections
+ * @param args - Input arguments containing the topic, optional section and version, and the format
+ * @returns Markdown task lists or JSON as text, and the checklist as structured content
+ * @throws NotFoundError if the topic or file doesn't exist
+ * @throws VersionNotFoundError if the topic has no such version
+ * @throws SectionNotFoundError if the requested section doesn't exist
+ * @throws FileTooLargeError if the file exceeds the configured size limit
+ * @throws FileReadError for other file system errors
+ */
+export async function getChecklist(
+  args: GetChecklistInput
+): Promise<{ text: string; structuredContent: ChecklistOutput }> {
+  const practice = await loadDocument(args.topic, args.version);
+  const section = args.section ? findSection(practice.document, args.section) : undefined;
+
+  if (args.section && !section) {
+    logger.info("Section not found", { topic: args.topic, section: args.section });
+    throw new SectionNotFoundError(args.topic, args.section);
+  }
+
+  const items = extractChecklist(args.topic, practice.document, section ? [section] : undefined);
+  const format = args.format ?? "markdown";
+  const structuredContent: ChecklistOutput = {
+    format,
+    topic: args.topic,
+    version: practice.version,
+    ...(section && { section: section.slug }),
+    items,
+  };
+
+  logger.debug("Generated checklist", { topic: args.topic, section: section?.slug, items: items.length });
+
+  if (format === "json") {
+    return { text: JSON.stringify(structuredContent, null, 2), structuredContent };
+  }
+
+  const name = practice.document.title ?? getTopic(args.topic)?.metadata.name ?? args.topic;
+  const title = section ? `${name} › ${section.number ? `${section.number} ` : ""}${section.title}` : name;
+  const text =
+    items.length > 0
+      ? formatChecklist(title, items)
+      : `# Checklist: ${title}\n\nNo actionable items found. Fetch the practices with \`get_best_practice\` instead.`;
+
+  return { text, structuredContent };
+}
@@ -0,0 +1,103 @@
+/**
+ * Tool implementation for extracting code examples from practice documents
+ */
+
+import { GetCodeExamplesInput } from "../validation";
+import { loadDocument } from "../documentStore";
+import { extractCodeBlocks, findSection, CodeBlock } from "../utils/markdown";
+import { NotFoundError, SectionNotFoundError } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+/**
+ * Common alternative names for fence languages
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  typescript: "ts",
+  javascript: "js",
+  shell: "bash",
+  sh: "bash",
+};
+
+function normalizeLanguage(language: string): string {
+  return LANGUAGE_ALIASES[language] ?? language;
+}
+
+/**
+ * Renders a code block with its heading and explanatory line
+ */
+function formatCodeBlock(block: CodeBlock): string {
+  const heading = block.section
+    ? `${block.section.number ? `${block.section.number} ` : ""}${block.section.title} (\`${block.section.slug}\`)`
+    : "Introduction";
+
+  return [
+    `## Example ${block.index}: ${heading}`,
+    ...(block.context ? ["", block.context] : []),
+    "",
+    `\`\`\`${block.language ?? ""}`,
+    block.code,
+    "```",
+  ].join("\n");
+}
+
+/**
+ * Returns the fenced code blocks of a topic, optionally filtered
+ * @param args - Input arguments containing the topic and optional language/section filters
+ * @returns The matching code blocks as markdown
+ * @throws NotFoundError if the topic or file doesn't exist
+ * @throws SectionNotFoundError if the requested section doesn't exist
+ */
+export async function getCodeExamples(args: GetCodeExamplesInput): Promise<string> {
+  const { document } = await loadDocument(args.topic);
+  let blocks = extractCodeBlocks(document);
+
+  if (args.section) {
+    const section = findSection(document, args.section);
+    if (!section) {
+      throw new SectionNotFoundError(args.topic, args.section);
+    }
+    blocks = blocks.filter((block) => block.line > section.line && block.line <= section.endLine);
+  }
+
+  if (args.language) {
+    const language = normalizeLanguage(args.language);
+    blocks = blocks.filter(
+      (block) => block.language !== null && normalizeLanguage(block.language) === language
+    );
+  }
+
+  logger.debug("Extracted code examples", { topic: args.topic, count: blocks.length });
+
+  if (blocks.length === 0) {
+    const filters = [
+      args.section && `section: ${args.section}`,
+      args.language && `language: ${args.language}`,
+    ].filter(Boolean);
+    return `No code examples found for topic: ${args.topic}${
+      filters.length > 0 ? ` (${filters.join(", ")})` : ""
+    }`;
+  }
+
+  return [
+    `# Code examples: ${args.topic} (${blocks.length})`,
+    "",
+    blocks.map(formatCodeBlock).join("\n\n"),
+  ].join("\n");
+}
+
+/**
+ * Returns a single code example of a topic by its 1-based index
+ * @throws NotFoundError if the topic, file or example doesn't exist
+ */
+export async function getCodeExample(topic: string, index: number): Promise<string> {
+  const { document } = await loadDocument(topic);
+  const block = extractCodeBlocks(document).find(
+    (candidate) => candidate.index === index
+  );
+
+  if (!block) {
+    throw new NotFoundError(`Code example ${index} in topic: ${topic}`);
+  }
+
+  return formatCodeBlock(block);
+}
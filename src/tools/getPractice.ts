@@ -3,73 +3,182 @@
  * Includes security measures to prevent path traversal attacks
  */
 
-import path from "path";
-import { promises as fs } from "fs";
 import { GetPracticeInput } from "../validation";
-import { TOPIC_TO_FILE } from "../types";
-import { SecurityError, NotFoundError, FileReadError } from "../utils/errors";
+import { loadDocument, PracticeDocument } from "../documentStore";
+import { SectionNotFoundError } from "../utils/errors";
 import { logger } from "../utils/logger";
+import { findSection, getSectionText, Section } from "../utils/markdown";
+import { summarizeDocument } from "../utils/summary";
+import { estimateTokens } from "../utils/tokens";
+import { getSectionUri } from "../resources/practices";
+import { getTopic } from "../topics";
+import { SectionOverride } from "../overlays";
+import {
+  PracticeOutput,
+  structurePreamble,
+  structureSection,
+} from "../utils/structuredDocument";
 
 /**
- * Validates that a resolved path is within the base directory
- * Prevents path traversal attacks
+ * Finds the requested section of a document
+ * @throws SectionNotFoundError if the section doesn't exist
  */
-function validatePath(basePath: string, targetPath: string): boolean {
-  const normalized = path.normalize(targetPath);
-  const base = path.normalize(basePath);
+function selectSection(practice: PracticeDocument, selector: string): Section {
+  const section = findSection(practice.document, selector);
 
-  // Ensure target is within base directory
-  return normalized.startsWith(base + path.sep) || normalized === base;
+  if (!section) {
+    logger.info("Section not found", { topic: practice.topic, section: selector });
+    throw new SectionNotFoundError(practice.topic, selector);
+  }
+
+  return section;
+}
+
+/**
+ * Returns the overrides that fall within a section, or all of them for the whole document
+ * Suppressed sections are no longer in the document, so they are matched by number
+ */
+function overridesWithin(practice: PracticeDocument, section: Section | undefined): SectionOverride[] {
+  if (!section) return practice.overrides;
+
+  const slugs = new Set<string>();
+  const collect = (current: Section) => {
+    slugs.add(current.slug);
+    current.children.forEach(collect);
+  };
+  collect(section);
+
+  return practice.overrides.filter((override) =>
+    override.action === "suppressed"
+      ? section.number !== null && override.number?.startsWith(`${section.number}.`)
+      : slugs.has(override.section)
+  );
+}
+
+const OVERRIDE_ACTIONS: SectionOverride["action"][] = ["replaced", "suppressed", "annotated", "added"];
+
+/**
+ * Adds a line listing the sections changed by the team's overlay below the document title
+ */
+function withOverrideNotice(content: string, overrides: SectionOverride[]): string {
+  const groups = OVERRIDE_ACTIONS.map((action) => {
+    const sections = overrides
+      .filter((override) => override.action === action)
+      .map((override) => override.number ?? override.title);
+    return sections.length > 0 ? `${action} ${sections.join(", ")}` : null;
+  }).filter(Boolean);
+  const notice = `> **Team overlay:** ${groups.join("; ")}`;
+
+  const lines = content.split("\n");
+  const titleIndex = lines.findIndex((line) => /^#\s/.test(line));
+  lines.splice(titleIndex + 1, 0, ...(titleIndex === -1 ? [notice, ""] : ["", notice]));
+  return lines.join("\n");
+}
+
+/**
+ * Condenses a document, or one of its sections, into a summary within an optional budget
+ * @returns The summary and the resource URIs of the sections it leaves out
+ */
+function summarizePractice(
+  practice: PracticeDocument,
+  section: Section | undefined,
+  maxTokens: number | undefined
+): { text: string; omitted: string[] } {
+  const { document, topic } = practice;
+  const title = document.title ?? getTopic(topic)?.metadata.name ?? topic;
+
+  const { text, omitted } = summarizeDocument(document, {
+    title: `${title} (summary)`,
+    sections: section ? [section] : undefined,
+    maxTokens,
+    formatOmitted: (sections) => {
+      const selectors = sections.map((omitted) => omitted.number ?? omitted.slug).join(", ");
+      return `_Omitted to fit ${maxTokens} tokens; pass one as \`section\` or read ${getSectionUri(topic, "")}<section>: ${selectors}_`;
+    },
+  });
+
+  return { text, omitted: omitted.map((omitted) => getSectionUri(topic, omitted.slug)) };
 }
 
 /**
  * Retrieves best practice documentation for a given topic
- * @param args - Input arguments containing the topic
- * @returns The content of the best practice file
+ * @param args - Input arguments containing the topic, an optional section and version, and the level of detail
+ * @returns The full document or requested section, or its summary if requested or over max_tokens
  * @throws SecurityError if path traversal is detected
  * @throws NotFoundError if the file doesn't exist
+ * @throws VersionNotFoundError if the topic has no such version
+ * @throws SectionNotFoundError if the requested section doesn't exist
+ * @throws FileTooLargeError if the file exceeds the configured size limit
  * @throws FileReadError for other file system errors
  */
 export async function getPractice(args: GetPracticeInput): Promise<string> {
-  // Resolve data directory relative to the compiled file location
-  // In development: src/tools/getPractice.ts -> src/data
-  // In production: dist/tools/getPractice.js -> dist/data
-  const basePath = path.resolve(__dirname, "../data");
-  const fileName = TOPIC_TO_FILE[args.topic as keyof typeof TOPIC_TO_FILE];
-
-  if (!fileName) {
-    logger.warn("Unknown topic requested", { topic: args.topic });
-    throw new NotFoundError(`Best practice for topic: ${args.topic}`);
-  }
+  return (await getPracticeOutput({ ...args, format: "markdown" })).text;
+}
 
-  const filePath = path.resolve(basePath, fileName);
+/**
+ * Retrieves best practice documentation in the requested format
+ * Markdown is returned as text with a small structured description; JSON as the
+ * full section tree, serialized into the text as well for clients without
+ * structured content support
+ * @param args - Input arguments as for getPractice, plus the output format
+ * @returns The text content and the structured content of the tool result
+ * @throws The same errors as getPractice
+ */
+export async function getPracticeOutput(
+  args: GetPracticeInput
+): Promise<{ text: string; structuredContent: PracticeOutput }> {
+  const practice = await loadDocument(args.topic, args.version);
+  const section = args.section ? selectSection(practice, args.section) : undefined;
+  const overrides = overridesWithin(practice, section);
+  const source = {
+    topic: args.topic,
+    version: practice.version,
+    ...(section && { section: section.slug }),
+    ...(overrides.length > 0 && { overrides }),
+  };
+
+  if (args.format !== "json") {
+    const text = section
+      ? getSectionText(practice.document, section)
+      : overrides.length > 0
+        ? withOverrideNotice(practice.content, overrides)
+        : practice.content;
+    const summarize =
+      args.detail === "summary" ||
+      (args.max_tokens !== undefined && estimateTokens(text) > args.max_tokens);
+
+    if (!summarize) {
+      logger.debug("Returning practice", { topic: args.topic, section: section?.slug });
+      return { text, structuredContent: { format: "markdown", ...source } };
+    }
 
-  // CRITICAL SECURITY CHECK: Verify path is within basePath
-  if (!validatePath(basePath, filePath)) {
-    logger.error("Path traversal attempt detected", {
+    const condensed = summarizePractice(practice, section, args.max_tokens);
+    logger.debug("Returning practice summary", {
       topic: args.topic,
-      filePath,
+      section: section?.slug,
+      omitted: condensed.omitted.length,
     });
-    throw new SecurityError("Invalid topic path");
+    return {
+      text: condensed.text,
+      structuredContent: {
+        format: "markdown",
+        ...source,
+        detail: "summary",
+        ...(condensed.omitted.length > 0 && { omitted: condensed.omitted }),
+      },
+    };
   }
 
-  try {
-    logger.debug("Reading practice file", { topic: args.topic, fileName });
-    const content = await fs.readFile(filePath, "utf-8");
-    logger.info("Successfully read practice file", { topic: args.topic });
-    return content;
-  } catch (error) {
-    if (error instanceof Error) {
-      if ("code" in error && error.code === "ENOENT") {
-        logger.warn("Practice file not found", { topic: args.topic, filePath });
-        throw new NotFoundError(`Best practice file for topic: ${args.topic}`);
-      }
-    }
-    logger.error("Failed to read practice file", error);
-    throw new FileReadError(
-      `Failed to read best practice file: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
-  }
+  const structuredContent: PracticeOutput = {
+    format: "json",
+    ...source,
+    title: practice.document.title,
+    ...(!section && { preamble: structurePreamble(practice.document) }),
+    sections: section
+      ? [structureSection(practice.document, section)]
+      : practice.document.sections.map((child) => structureSection(practice.document, child)),
+  };
+
+  logger.debug("Returning structured practice", { topic: args.topic, section: section?.slug });
+  return { text: JSON.stringify(structuredContent, null, 2), structuredContent };
 }
@@ -0,0 +1,93 @@
+/**
+ * Tool implementation for reporting request metrics
+ */
+
+import { GetServerStatsInput } from "../validation";
+import { getMetrics, getUptimeSeconds, OperationStats } from "../metrics";
+import { getDocumentCacheStats } from "../documentStore";
+
+/**
+ * Formats a duration in seconds as e.g. "2h 5m 3s"
+ */
+function formatUptime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return [hours && `${hours}h`, (hours || minutes) && `${minutes}m`, `${seconds % 60}s`]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Renders error counts as "NotFoundError × 2, ZodError × 1"
+ */
+function formatErrors(errors: Record<string, number>): string {
+  const entries = Object.entries(errors).sort(([, a], [, b]) => b - a);
+  return entries.length === 0 ? "—" : entries.map(([name, count]) => `${name} × ${count}`).join(", ");
+}
+
+function averageMs(stats: OperationStats): string {
+  return (stats.count === 0 ? 0 : stats.totalMs / stats.count).toFixed(1);
+}
+
+/**
+ * Reports request counts, latencies, errors and the most requested practices
+ * @param args - Input arguments containing how many topics and sections to list
+ * @returns A markdown report
+ */
+export async function getServerStats(args: GetServerStatsInput): Promise<string> {
+  const metrics = getMetrics();
+  const cache = getDocumentCacheStats();
+  const operations = Object.entries(metrics.operations).sort(([, a], [, b]) => b.count - a.count);
+  const topics = Object.entries(metrics.topics)
+    .sort(([, a], [, b]) => b.count - a.count)
+    .slice(0, args.limit);
+  const sections = Object.entries(metrics.topics)
+    .flatMap(([topic, stats]) =>
+      Object.entries(stats.sections).map(([section, count]) => ({ topic, section, count }))
+    )
+    .sort((a, b) => b.count - a.count)
+    .slice(0, args.limit);
+
+  const lines = [
+    "# Server Stats",
+    "",
+    `Uptime: ${formatUptime(getUptimeSeconds())}. Recording since ${metrics.since}.`,
+    "",
+    "## Requests",
+    "",
+  ];
+
+  if (operations.length === 0) {
+    lines.push("No requests recorded yet.");
+  } else {
+    lines.push("| Operation | Requests | Avg ms | Max ms | Errors |", "| --- | --- | --- | --- | --- |");
+    for (const [name, stats] of operations) {
+      lines.push(
+        `| ${name} | ${stats.count} | ${averageMs(stats)} | ${stats.maxMs.toFixed(1)} | ${formatErrors(stats.errors)} |`
+      );
+    }
+  }
+
+  if (topics.length > 0) {
+    lines.push("", "## Topics", "", "| Topic | Requests | Errors |", "| --- | --- | --- |");
+    for (const [topic, stats] of topics) {
+      lines.push(`| ${topic} | ${stats.count} | ${formatErrors(stats.errors)} |`);
+    }
+  }
+
+  if (sections.length > 0) {
+    lines.push("", "## Most Requested Sections", "");
+    sections.forEach(({ topic, section, count }, index) => {
+      lines.push(`${index + 1}. ${topic} › ${section} (${count})`);
+    });
+  }
+
+  lines.push(
+    "",
+    "## Document Cache",
+    "",
+    `${cache.entries} documents (${cache.bytes} bytes) cached, ${cache.hits} hits, ${cache.misses} misses.`
+  );
+
+  return lines.join("\n");
+}
@@ -0,0 +1,12 @@
+/**
+ * Tool registry with the built-in tools registered
+ * Plugins register their tools through registerTool before the server handles requests
+ */
+
+import { registerTool } from "./registry";
+import { BUILTIN_TOOLS } from "./builtinTools";
+
+export * from "./registry";
+export { toolErrorResult } from "./toolErrors";
+
+BUILTIN_TOOLS.forEach((tool) => registerTool(tool));
@@ -0,0 +1,56 @@
+/**
+ * Tool implementation for listing the table of contents of a practice document
+ */
+
+import { ListSectionsInput } from "../validation";
+import { loadDocument } from "../documentStore";
+import { LATEST_VERSION } from "../topics";
+import { Section } from "../utils/markdown";
+import { logger } from "../utils/logger";
+
+/**
+ * Renders sections as a nested markdown list
+ */
+function formatSections(sections: Section[], depth = 0): string[] {
+  return sections.flatMap((section) => {
+    const indent = "  ".repeat(depth);
+    const number = section.number ? `${section.number} ` : "";
+    return [
+      `${indent}- ${number}${section.title} (\`${section.slug}\`)`,
+      ...formatSections(section.children, depth + 1),
+    ];
+  });
+}
+
+/**
+ * Lists the sections of a topic's practice document, or of one of its versions
+ * @param args - Input arguments containing the topic and an optional version
+ * @returns A markdown table of contents with section numbers and slugs
+ * @throws NotFoundError if the topic or file doesn't exist
+ * @throws VersionNotFoundError if the topic has no such version
+ */
+export async function listSections(args: ListSectionsInput): Promise<string> {
+  const { document, version } = await loadDocument(args.topic, args.version);
+
+  logger.debug("Listing practice sections", {
+    topic: args.topic,
+    version,
+    count: document.sections.length,
+  });
+
+  const pinned = args.version !== undefined && args.version !== LATEST_VERSION;
+  const heading = `# Sections: ${document.title ?? args.topic}${pinned ? ` (${version})` : ""}`;
+  if (document.sections.length === 0) {
+    return `${heading}\n\nThis document has no sections.`;
+  }
+
+  return [
+    heading,
+    "",
+    `Pass a section number or slug as \`section\` to \`get_best_practice\`${
+      pinned ? ` with \`version: "${version}"\`` : ""
+    } to fetch it.`,
+    "",
+    ...formatSections(document.sections),
+  ].join("\n");
+}
@@ -0,0 +1,205 @@
+/**
+ * Tool implementation for recommending practice topics from a project's package.json
+ */
+
+import { RecommendPracticesInput } from "../validation";
+import { PACKAGE_TO_TOPICS, RECOMMENDED_STACK, StackRecommendation } from "../types";
+import { getTopic, TopicVersion } from "../topics";
+import { readPackageJson } from "../projects";
+import { getResourceUri } from "../resources/practices";
+import { ValidationError } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+const DEPENDENCY_FIELDS = [
+  "peerDependencies",
+  "optionalDependencies",
+  "devDependencies",
+  "dependencies",
+] as const;
+
+export interface DetectedPackage {
+  name: string;
+  /** Version range as written in package.json, e.g. "^15.0.3" */
+  version: string;
+  /** Major version the range starts at, if it has one */
+  major: number | null;
+}
+
+export interface TopicRecommendation {
+  topic: string;
+  /** Dependencies that made the topic relevant */
+  packages: DetectedPackage[];
+  /** Version of the practices matching the detected major version, if it isn't the latest */
+  version?: string;
+}
+
+export interface StackGap extends StackRecommendation {
+  /** Recommended packages the project doesn't depend on */
+  missing: string[];
+  /** Dependencies the recommended packages would replace */
+  using: DetectedPackage[];
+}
+
+export interface ProjectRecommendation {
+  name?: string;
+  topics: TopicRecommendation[];
+  /** Only checked for React projects, which the recommended stack is for */
+  gaps: StackGap[];
+  isReactProject: boolean;
+}
+
+/**
+ * Extracts the major version from a version range, e.g. "^18.2.0" -> 18
+ * Returns null for ranges without one, such as "latest" or "workspace:*"
+ */
+export function majorVersion(range: string): number | null {
+  const match = range.match(/(\d+)(?:\.[\dxX*]+)*/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Picks the practices version labelled after a package's major version, e.g. "v4" or "4"
+ */
+function matchVersion(versions: TopicVersion[], packages: DetectedPackage[]): TopicVersion | undefined {
+  for (const { major } of packages) {
+    if (major === null) continue;
+    const match = versions.find(({ version }) => version === `v${major}` || version === String(major));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Collects every dependency of a parsed package.json
+ * Regular dependencies take precedence over dev, optional and peer ones
+ */
+function collectDependencies(manifest: Record<string, unknown>): Map<string, DetectedPackage> {
+  const packages = new Map<string, DetectedPackage>();
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const dependencies = manifest[field];
+    if (typeof dependencies !== "object" || dependencies === null) continue;
+
+    for (const [name, version] of Object.entries(dependencies)) {
+      if (typeof version !== "string") continue;
+      packages.set(name, { name, version, major: majorVersion(version) });
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Parses package.json contents
+ * @throws ValidationError if they aren't a JSON object
+ */
+function parseManifest(contents: string): Record<string, unknown> {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(contents);
+  } catch {
+    // The parser's message quotes the contents, which must not be echoed back
+    throw new ValidationError("Invalid package.json: not valid JSON");
+  }
+
+  if (typeof manifest !== "object" || manifest === null || Array.isArray(manifest)) {
+    throw new ValidationError("Invalid package.json: expected a JSON object");
+  }
+  return manifest as Record<string, unknown>;
+}
+
+/**
+ * Works out which topics apply to a project and where it departs from the recommended stack
+ * @param contents - package.json contents
+ * @throws ValidationError if the contents aren't a JSON object
+ */
+export function analyzePackageJson(contents: string): ProjectRecommendation {
+  const manifest = parseManifest(contents);
+  const dependencies = collectDependencies(manifest);
+
+  const topics = new Map<string, DetectedPackage[]>();
+  for (const dependency of dependencies.values()) {
+    for (const topic of PACKAGE_TO_TOPICS[dependency.name] ?? []) {
+      if (!getTopic(topic)) continue;
+      topics.set(topic, [...(topics.get(topic) ?? []), dependency]);
+    }
+  }
+
+  const isReactProject = dependencies.has("react") || dependencies.has("next");
+  const gaps = isReactProject
+    ? RECOMMENDED_STACK.flatMap((recommendation) => {
+        const missing = recommendation.packages.filter((name) => !dependencies.has(name));
+        if (missing.length === 0) return [];
+        const using = (recommendation.alternatives ?? [])
+          .map((name) => dependencies.get(name))
+          .filter((dependency): dependency is DetectedPackage => dependency !== undefined);
+        return [{ ...recommendation, missing, using }];
+      })
+    : [];
+
+  return {
+    ...(typeof manifest.name === "string" && { name: manifest.name }),
+    topics: [...topics].map(([topic, packages]) => {
+      const match = matchVersion(getTopic(topic)!.versions, packages);
+      return { topic, packages, ...(match && !match.latest && { version: match.version }) };
+    }),
+    gaps,
+    isReactProject,
+  };
+}
+
+function formatPackage(dependency: DetectedPackage): string {
+  return `\`${dependency.name}\` ${dependency.version}`;
+}
+
+/**
+ * Recommends practice topics for a project
+ * @param args - Input arguments containing package.json contents or a path to one
+ * @returns Markdown listing the relevant topics, detected versions and stack gaps
+ * @throws ValidationError if the package.json is missing or invalid
+ * @throws SecurityError if the path is outside the project roots
+ */
+export async function recommendPractices(args: RecommendPracticesInput): Promise<string> {
+  const contents = args.packageJson ?? (await readPackageJson(args.path!));
+  const recommendation = analyzePackageJson(contents);
+
+  logger.debug("Recommended practices", {
+    project: recommendation.name,
+    topics: recommendation.topics.map(({ topic }) => topic),
+    gaps: recommendation.gaps.length,
+  });
+
+  const lines = [`# Recommended Practices${recommendation.name ? `: ${recommendation.name}` : ""}`, ""];
+
+  if (recommendation.topics.length === 0) {
+    lines.push("No dependencies match a practice topic.");
+  } else {
+    lines.push(
+      "Fetch these with `get_best_practice` or read the resources to load the project's context.",
+      ""
+    );
+    for (const { topic, packages, version } of recommendation.topics) {
+      const name = getTopic(topic)?.metadata.name ?? topic;
+      const pinned = version ? ` — pass \`version: "${version}"\` to match the installed version` : "";
+      lines.push(
+        `- **${topic}** (${name}) — ${getResourceUri(topic)} — from ${packages.map(formatPackage).join(", ")}${pinned}`
+      );
+    }
+  }
+
+  if (recommendation.isReactProject) {
+    lines.push("", "## Gaps Against the Recommended Stack", "");
+    if (recommendation.gaps.length === 0) {
+      lines.push("The project uses every package of the recommended stack.");
+    }
+    for (const gap of recommendation.gaps) {
+      const using =
+        gap.using.length > 0 ? `; currently using ${gap.using.map(formatPackage).join(", ")}` : "";
+      lines.push(
+        `- **${gap.category}**: add ${gap.missing.map((name) => `\`${name}\``).join(" + ")} — ${gap.why}${using}`
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,111 @@
+/**
+ * Tool registry
+ * Every tool declares its input schema, handler and annotations in one place;
+ * the server lists and dispatches whatever is registered here, so new tools
+ * (including team-specific plugins) don't need changes to server.ts
+ */
+
+import { z } from "zod";
+import { Tool, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { getTopicNames } from "../topics";
+import { TOPIC_FIELD_META } from "../validation";
+import { Logger } from "../utils/logger";
+
+/**
+ * Result of a tool handler: text, or text with structured content matching the tool's output schema
+ */
+export type ToolOutput = string | { text: string; structuredContent?: Record<string, unknown> };
+
+export interface ToolContext {
+  /** Logger tagged with the request the tool runs for */
+  log: Logger;
+}
+
+export interface ToolDefinition<TSchema extends z.ZodType = z.ZodType> {
+  /** Name clients call the tool by */
+  name: string;
+  /** Description for clients; a function is evaluated whenever tools are listed */
+  description: string | (() => string);
+  /** Validates the arguments; listed to clients as JSON Schema */
+  inputSchema: TSchema;
+  /** JSON Schema of the structured content, for tools that return it */
+  outputSchema?: Tool["outputSchema"];
+  annotations?: ToolAnnotations;
+  /** Runs the tool with the parsed arguments; errors are mapped to tool error results */
+  handler: (args: z.output<TSchema>, context: ToolContext) => Promise<ToolOutput>;
+}
+
+const tools = new Map<string, ToolDefinition>();
+
+/**
+ * Declares a tool, inferring the handler's argument type from its input schema
+ */
+export function defineTool<TSchema extends z.ZodType>(tool: ToolDefinition<TSchema>): ToolDefinition<TSchema> {
+  return tool;
+}
+
+/**
+ * Registers a tool
+ * @throws Error if a tool with the same name is already registered
+ */
+export function registerTool<TSchema extends z.ZodType>(tool: ToolDefinition<TSchema>): void {
+  if (tools.has(tool.name)) {
+    throw new Error(`Tool already registered: ${tool.name}`);
+  }
+  tools.set(tool.name, tool as unknown as ToolDefinition);
+}
+
+/**
+ * Removes a tool from the registry
+ * @returns Whether the tool was registered
+ */
+export function unregisterTool(name: string): boolean {
+  return tools.delete(name);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return tools.get(name);
+}
+
+/**
+ * Lists the registered tools in registration order
+ */
+export function getTools(): ToolDefinition[] {
+  return [...tools.values()];
+}
+
+/**
+ * Replaces the topic marker of topic fields with the currently known topics
+ */
+function withTopicNames(schema: unknown, topics: string[]): unknown {
+  if (Array.isArray(schema)) return schema.map((item) => withTopicNames(item, topics));
+  if (!schema || typeof schema !== "object") return schema;
+
+  const { [TOPIC_FIELD_META]: isTopic, ...rest } = schema as Record<string, unknown>;
+  const converted = Object.fromEntries(
+    Object.entries(rest).map(([key, value]) => [key, withTopicNames(value, topics)])
+  );
+  return isTopic ? { ...converted, enum: topics } : converted;
+}
+
+/**
+ * Converts a tool's input schema to the JSON Schema listed to clients
+ * Fields with defaults are optional, and topic fields list the known topics
+ */
+export function toInputJsonSchema(schema: z.ZodType): Tool["inputSchema"] {
+  const { $schema: _schema, ...json } = z.toJSONSchema(schema, { io: "input", target: "draft-7" });
+  return withTopicNames(json, getTopicNames()) as Tool["inputSchema"];
+}
+
+/**
+ * Describes a tool as listed in the ListTools response
+ */
+export function describeTool(tool: ToolDefinition): Tool {
+  return {
+    name: tool.name,
+    description: typeof tool.description === "function" ? tool.description() : tool.description,
+    inputSchema: toInputJsonSchema(tool.inputSchema),
+    ...(tool.outputSchema && { outputSchema: tool.outputSchema }),
+    ...(tool.annotations && { annotations: tool.annotations }),
+  };
+}
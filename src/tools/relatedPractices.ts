@@ -0,0 +1,107 @@
+/**
+ * Tool implementation for following cross-references between practice documents
+ * Looks a section up in the practice graph and lists the sections of other
+ * topics it links to, mentions or shares terms with
+ */
+
+import { z } from "zod";
+import { RelatedPracticesInput } from "../validation";
+import { loadDocument } from "../documentStore";
+import { getTopic } from "../topics";
+import { getPracticeGraph, findRelatedSections } from "../graph/practiceGraph";
+import { SectionNotFoundError } from "../utils/errors";
+import { findSection } from "../utils/markdown";
+import { logger } from "../utils/logger";
+
+const relatedSectionSchema = z.object({
+  topic: z.string(),
+  number: z.string().nullable(),
+  title: z.string(),
+  slug: z.string(),
+  uri: z.string().describe("practice:// URI of the related section"),
+  kinds: z
+    .array(z.enum(["link", "mention", "shared-terms", "related-topic"]))
+    .describe("Why the sections are connected"),
+  terms: z.array(z.string()).describe("Distinctive terms both sections use"),
+  score: z.number(),
+});
+
+/**
+ * Schema for the structuredContent of related_practices
+ */
+export const relatedPracticesOutputSchema = z.object({
+  topic: z.string(),
+  section: z.string().describe("Slug of the section the related sections were found for"),
+  related: z.array(relatedSectionSchema),
+});
+
+export type RelatedPracticesOutput = z.infer<typeof relatedPracticesOutputSchema>;
+
+/**
+ * JSON Schema of relatedPracticesOutputSchema, declared as the tool's outputSchema
+ */
+export function getRelatedPracticesOutputJsonSchema() {
+  const { $schema: _schema, ...schema } = z.toJSONSchema(relatedPracticesOutputSchema, { target: "draft-7" });
+  return schema as { type: "object"; [key: string]: unknown };
+}
+
+const KIND_LABELS = {
+  link: "practice:// link",
+  mention: "topic mention",
+  "shared-terms": "shared terms",
+  "related-topic": "related topic",
+} as const;
+
+/**
+ * Finds the sections related to a section of a topic
+ * @param args - Input arguments containing the topic, section and limit
+ * @returns The related sections as markdown, and as structured content
+ * @throws NotFoundError if the topic or file doesn't exist
+ * @throws SectionNotFoundError if the section doesn't exist
+ * @throws FileTooLargeError if the file exceeds the configured size limit
+ * @throws FileReadError for other file system errors
+ */
+export async function relatedPractices(
+  args: RelatedPracticesInput
+): Promise<{ text: string; structuredContent: RelatedPracticesOutput }> {
+  const practice = await loadDocument(args.topic);
+  const section = findSection(practice.document, args.section);
+
+  if (!section) {
+    logger.info("Section not found", { topic: args.topic, section: args.section });
+    throw new SectionNotFoundError(args.topic, args.section);
+  }
+
+  const graph = await getPracticeGraph();
+  const related = findRelatedSections(graph, `${args.topic}/${section.slug}`, args.limit).map(
+    ({ id: _id, ...node }) => node
+  );
+  const structuredContent: RelatedPracticesOutput = { topic: args.topic, section: section.slug, related };
+
+  logger.debug("Found related sections", { topic: args.topic, section: section.slug, related: related.length });
+
+  const name = getTopic(args.topic)?.metadata.name ?? args.topic;
+  const heading = `# Related to ${name} › ${section.number ? `${section.number} ` : ""}${section.title}`;
+
+  if (related.length === 0) {
+    return {
+      text: `${heading}\n\nNo related sections found. Try \`search_best_practices\` instead.`,
+      structuredContent,
+    };
+  }
+
+  const lines = related.map((result, position) => {
+    const number = result.number ? `${result.number} ` : "";
+    const reasons = result.kinds.map((kind) => KIND_LABELS[kind]).join(", ");
+    const terms = result.terms.length > 0 ? `; terms: ${result.terms.join(", ")}` : "";
+    return [
+      `${position + 1}. **${getTopic(result.topic)?.metadata.name ?? result.topic} › ${number}${result.title}** (score: ${result.score})`,
+      `   ${result.uri} — ${reasons}${terms}`,
+    ].join("\n");
+  });
+
+  return {
+    text: [heading, "", ...lines, "", "Read a result as a resource, or with `get_best_practice`."].join("\n"),
+    structuredContent,
+  };
+}
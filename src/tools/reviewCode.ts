@@ -0,0 +1,57 @@
+/**
+ * Tool implementation for reviewing a code snippet against practice rules
+ */
+
+import { ReviewCodeInput } from "../validation";
+import { detectTopics, analyzeCode, Finding } from "../review/analyzer";
+import { getRules, Severity } from "../review/rules";
+import { getSectionUri } from "../resources/practices";
+import { logger } from "../utils/logger";
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  error: "❌ Error",
+  warning: "⚠️ Warning",
+  info: "💡 Info",
+};
+
+/**
+ * Renders a finding with the practice section it comes from
+ */
+function formatFinding(finding: Finding, index: number): string {
+  const { rule } = finding;
+  const section = `${rule.sectionNumber ? `${rule.sectionNumber} ` : ""}${rule.sectionTitle}`;
+
+  return [
+    `${index + 1}. **${SEVERITY_LABELS[rule.severity]}** (line ${finding.line}): ${rule.message} \`${rule.id}\``,
+    `   \`${finding.excerpt}\``,
+    ...(rule.suggestion ? [`   Suggestion: ${rule.suggestion}`] : []),
+    `   Practice: ${section} — ${getSectionUri(rule.topic, rule.sectionSlug)}`,
+  ].join("\n");
+}
+
+/**
+ * Reviews a snippet against the rules of the given or detected topics
+ * @param args - Input arguments containing the code and an optional topic
+ * @returns The findings as markdown, linked to their practice sections
+ */
+export async function reviewCode(args: ReviewCodeInput): Promise<string> {
+  const topics = args.topic ? [args.topic] : detectTopics(args.code);
+  const rules = (await Promise.all(topics.map((topic) => getRules(topic)))).flat();
+  const findings = analyzeCode(args.code, rules);
+
+  logger.debug("Reviewed code", { topics, rules: rules.length, findings: findings.length });
+
+  const checked = `Checked against: ${topics.join(", ")}`;
+
+  if (findings.length === 0) {
+    return `No issues found. ${checked}`;
+  }
+
+  return [
+    `# Code review (${findings.length} ${findings.length === 1 ? "finding" : "findings"})`,
+    "",
+    checked,
+    "",
+    findings.map(formatFinding).join("\n\n"),
+  ].join("\n");
+}
@@ -0,0 +1,42 @@
+/**
+ * Tool implementation for full-text search across all practice documents
+ */
+
+import { SearchPracticesInput } from "../validation";
+import { getSearchIndex, searchIndex } from "../search/searchIndex";
+import { logger } from "../utils/logger";
+
+/**
+ * Searches all practice documents for sections matching a query
+ * @param args - Input arguments containing the query, optional topic filter and limit
+ * @returns Ranked results as markdown, with topic, section, snippet and score
+ */
+export async function searchPractices(args: SearchPracticesInput): Promise<string> {
+  const index = await getSearchIndex();
+  const results = searchIndex(index, args.query, {
+    topic: args.topic,
+    limit: args.limit,
+  });
+
+  logger.debug("Search completed", { query: args.query, results: results.length });
+
+  if (results.length === 0) {
+    return `No sections matched "${args.query}".`;
+  }
+
+  const lines = results.map((result, position) => {
+    const number = result.number ? `${result.number} ` : "";
+    return [
+      `${position + 1}. **${result.topic} › ${number}${result.title}** (section: \`${result.slug}\`, score: ${result.score})`,
+      `   ${result.snippet}`,
+    ].join("\n");
+  });
+
+  return [
+    `# Search results for "${args.query}"`,
+    "",
+    ...lines,
+    "",
+    "Fetch a result with `get_best_practice` using its topic and section.",
+  ].join("\n");
+}
@@ -0,0 +1,101 @@
+/**
+ * Maps errors thrown by tool handlers to tool error results
+ * Shared by every registered tool, so plugins get the same responses for the same errors
+ */
+
+import { z } from "zod";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { getTopic, getTopicNames, LATEST_VERSION } from "../topics";
+import {
+  MCPError,
+  NotFoundError,
+  ValidationError,
+  SecurityError,
+  FileReadError,
+  FileTooLargeError,
+  SectionNotFoundError,
+  VersionNotFoundError,
+} from "../utils/errors";
+import { Logger } from "../utils/logger";
+
+function errorResult(text: string): CallToolResult {
+  return { isError: true, content: [{ type: "text", text }] };
+}
+
+/**
+ * Turns an error from a tool handler into a result the client can show
+ * Client errors (invalid input, unknown topics, sections and versions) explain
+ * what went wrong; server errors never expose their details
+ */
+export function toolErrorResult(error: unknown, log: Logger): CallToolResult {
+  // Validation error
+  if (error instanceof z.ZodError) {
+    const errorMessages = error.issues.map((issue) => issue.message).join(", ");
+    log.warn("Validation error", { errors: errorMessages });
+    return errorResult(`Invalid input: ${errorMessages}`);
+  }
+
+  // Invalid input found after parsing, e.g. a malformed package.json
+  if (error instanceof ValidationError) {
+    log.warn("Validation error", { errors: error.message });
+    return errorResult(`Invalid input: ${error.message}`);
+  }
+
+  // Version not found
+  if (error instanceof VersionNotFoundError) {
+    log.info("Version not found", { message: error.message });
+    const versions = getTopic(error.topic)?.versions.map(({ version }) => version) ?? [];
+    // Topics without a libraryVersion list their latest document as "latest" already
+    const available = [...new Set([LATEST_VERSION, ...versions])];
+    return errorResult(`${error.message}. Available versions: ${available.join(", ")}`);
+  }
+
+  // Section not found
+  if (error instanceof SectionNotFoundError) {
+    log.info("Section not found", { message: error.message });
+    return errorResult(`${error.message}. Use list_practice_sections to see available sections`);
+  }
+
+  // File not found
+  if (error instanceof NotFoundError) {
+    log.info("Resource not found", { message: error.message });
+    return errorResult(`${error.message}. Available topics: ${getTopicNames().join(", ")}`);
+  }
+
+  // Security error
+  if (error instanceof SecurityError) {
+    log.error("Security violation", error);
+    return errorResult("Access denied");
+  }
+
+  // File above MAX_FILE_SIZE
+  if (error instanceof FileTooLargeError) {
+    // recommend_practices reads a project's package.json, not a practice document
+    if (error.resource === "package.json") {
+      log.warn("package.json too large", { message: error.message });
+      return errorResult(`This package.json is too large to analyze (limit: ${error.maxSize} bytes)`);
+    }
+    log.warn("Practice file too large", { message: error.message });
+    return errorResult(`This best practice document is too large to serve (limit: ${error.maxSize} bytes)`);
+  }
+
+  // File read error
+  if (error instanceof FileReadError) {
+    log.error("File read error", error);
+    return errorResult("An error occurred while retrieving the best practice");
+  }
+
+  // Other MCPError subclasses, e.g. from plugin tools: client errors keep their message
+  if (error instanceof MCPError) {
+    if (error.statusCode < 500) {
+      log.warn("Tool error", { code: error.code, message: error.message });
+      return errorResult(error.message);
+    }
+    log.error("Tool error", error);
+    return errorResult("An error occurred while running the tool");
+  }
+
+  // Unexpected error
+  log.error("Unexpected error in tool handler", error);
+  return errorResult("An unexpected error occurred");
+}
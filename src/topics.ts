@@ -0,0 +1,270 @@
+/**
+ * Topic registry
+ * Combines the built-in practice documents with topics discovered in
+ * external practice directories
+ */
+
+import path from "path";
+import { readdirSync } from "fs";
+import { TOPIC_TO_FILE } from "./types";
+import { readTopicMetadata, TopicMetadata } from "./metadata";
+import { logger } from "./utils/logger";
+
+export interface TopicEntry {
+  /** Topic name used in tool arguments and resource URIs */
+  name: string;
+  /** Directory the practice file lives in */
+  root: string;
+  /** File name relative to the root */
+  fileName: string;
+  /** Whether the topic ships with the server */
+  builtin: boolean;
+  /** Display metadata from the document's front matter */
+  metadata: TopicMetadata;
+  /** Every version of the document, the latest (the main file) first */
+  versions: TopicVersion[];
+}
+
+export interface TopicVersion {
+  /** Version label, e.g. "v5" or "pages-router" */
+  version: string;
+  /** File name relative to the topic's root */
+  fileName: string;
+  /** Whether this is the main document, served when no version is requested */
+  latest: boolean;
+}
+
+/**
+ * Version that resolves to a topic's main document, whatever its label
+ */
+export const LATEST_VERSION = "latest";
+
+/**
+ * Directory holding the built-in practice documents
+ * In development: src/topics.ts -> src/data
+ * In production: dist/topics.js -> dist/data
+ */
+export const BUILTIN_DATA_DIR = path.resolve(__dirname, "data");
+
+const TOPIC_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,49}$/;
+const VERSION_PATTERN = /^[a-z0-9][a-z0-9.-]{0,29}$/;
+const FILE_PATTERN = /^(.+?)(?:-best-practices)?(?:@([^@]+))?\.md$/i;
+
+let practiceDirs: string[] = [];
+let registry: Map<string, TopicEntry> | null = null;
+
+/**
+ * Derives the topic name and version from a markdown file name
+ * e.g. "graphql-best-practices.md" -> graphql, "tanstack-query-best-practices@v4.md" -> tanstack-query v4
+ */
+export function parsePracticeFileName(fileName: string): { topic: string; version: string | null } | null {
+  const match = fileName.match(FILE_PATTERN);
+  if (!match) return null;
+
+  const topic = match[1].toLowerCase();
+  const version = match[2]?.toLowerCase() ?? null;
+  if (!TOPIC_NAME_PATTERN.test(topic)) return null;
+  if (version !== null && (version === LATEST_VERSION || !VERSION_PATTERN.test(version))) return null;
+  return { topic, version };
+}
+
+/**
+ * Derives a topic name from a markdown file name, including versioned files
+ * e.g. "graphql-best-practices.md" -> "graphql", "Testing.md" -> "testing"
+ */
+export function topicNameFromFile(fileName: string): string | null {
+  return parsePracticeFileName(fileName)?.topic ?? null;
+}
+
+interface PracticeFile {
+  topic: string;
+  version: string | null;
+  fileName: string;
+}
+
+/**
+ * Scans a directory for markdown files: main documents become topics,
+ * versioned ones (topic@version.md) extra versions of them
+ */
+function scanDirectory(root: string): PracticeFile[] {
+  let fileNames: string[];
+  try {
+    fileNames = readdirSync(root, { withFileTypes: true })
+      .filter((entry) => entry.isFile())
+      .map((entry) => entry.name)
+      .sort();
+  } catch (error) {
+    logger.warn("Could not read practice directory", {
+      root,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+
+  return fileNames.flatMap((fileName) => {
+    const parsed = parsePracticeFileName(fileName);
+    if (!parsed) {
+      if (fileName.toLowerCase().endsWith(".md")) {
+        logger.warn("Skipping practice file with invalid topic name", { root, fileName });
+      }
+      return [];
+    }
+    return [{ ...parsed, fileName }];
+  });
+}
+
+/**
+ * Lists the versions of a topic, the main document first and the rest newest first
+ * Versioned files repeating the main document's label are skipped
+ */
+function resolveVersions(
+  topic: string,
+  fileName: string,
+  metadata: TopicMetadata,
+  versioned: PracticeFile[]
+): TopicVersion[] {
+  const latest = { version: metadata.libraryVersion ?? LATEST_VERSION, fileName, latest: true };
+  const others = versioned
+    .filter((file) => {
+      if (file.version !== latest.version) return true;
+      logger.warn("Versioned practice file duplicates the main document's version", {
+        topic,
+        fileName: file.fileName,
+      });
+      return false;
+    })
+    .map((file) => ({ version: file.version!, fileName: file.fileName, latest: false }))
+    .sort((a, b) => b.version.localeCompare(a.version, undefined, { numeric: true }));
+
+  return [latest, ...others];
+}
+
+/**
+ * Builds the topic registry from the built-in documents and the given directories.
+ * Built-in topics take precedence, then directories in the order given.
+ * Versioned files only count next to their topic's main document.
+ */
+export function discoverTopics(dirs: string[]): Map<string, TopicEntry> {
+  const topics = new Map<string, Omit<TopicEntry, "metadata" | "versions">>();
+  const versioned = new Map<string, PracticeFile[]>();
+
+  const addVersion = (root: string, file: PracticeFile) => {
+    const entry = topics.get(file.topic);
+    if (!entry || entry.root !== root) {
+      logger.warn("Versioned practice file without a main document ignored", {
+        root,
+        fileName: file.fileName,
+      });
+      return;
+    }
+    versioned.set(file.topic, [...(versioned.get(file.topic) ?? []), file]);
+  };
+
+  for (const [name, fileName] of Object.entries(TOPIC_TO_FILE)) {
+    topics.set(name, { name, root: BUILTIN_DATA_DIR, fileName, builtin: true });
+  }
+  for (const file of scanDirectory(BUILTIN_DATA_DIR)) {
+    if (file.version !== null) addVersion(BUILTIN_DATA_DIR, file);
+  }
+
+  for (const dir of dirs) {
+    const root = path.resolve(dir);
+    const files = scanDirectory(root);
+
+    for (const file of files.filter(({ version }) => version === null)) {
+      const existing = topics.get(file.topic);
+      if (existing) {
+        logger.warn("Duplicate topic ignored", {
+          topic: file.topic,
+          root,
+          definedIn: existing.root,
+        });
+        continue;
+      }
+      topics.set(file.topic, { name: file.topic, root, fileName: file.fileName, builtin: false });
+    }
+    for (const file of files.filter(({ version }) => version !== null)) {
+      addVersion(root, file);
+    }
+  }
+
+  logger.debug("Discovered practice topics", { topics: [...topics.keys()] });
+
+  return new Map(
+    [...topics].map(([name, entry]) => {
+      const metadata = readTopicMetadata(name, path.join(entry.root, entry.fileName));
+      const versions = resolveVersions(name, entry.fileName, metadata, versioned.get(name) ?? []);
+      return [name, { ...entry, metadata, versions }];
+    })
+  );
+}
+
+/**
+ * Sets the external practice directories and rebuilds the registry
+ */
+export function configurePracticeDirs(dirs: string[]): void {
+  practiceDirs = [...dirs];
+  registry = discoverTopics(practiceDirs);
+}
+
+/**
+ * Rediscovers topics in the configured directories, re-reading their metadata
+ */
+export function reloadTopics(): void {
+  registry = discoverTopics(practiceDirs);
+}
+
+/**
+ * Returns every directory topics are discovered in, built-in data first
+ */
+export function getPracticeRoots(): string[] {
+  return [BUILTIN_DATA_DIR, ...practiceDirs.map((dir) => path.resolve(dir))];
+}
+
+function getRegistry(): Map<string, TopicEntry> {
+  if (!registry) {
+    registry = discoverTopics(practiceDirs);
+  }
+  return registry;
+}
+
+/**
+ * Returns all registered topics
+ */
+export function getTopics(): TopicEntry[] {
+  return [...getRegistry().values()];
+}
+
+/**
+ * Returns the names of all registered topics
+ */
+export function getTopicNames(): string[] {
+  return [...getRegistry().keys()];
+}
+
+/**
+ * Looks up a topic by name
+ */
+export function getTopic(name: string): TopicEntry | undefined {
+  return getRegistry().get(name);
+}
+
+/**
+ * Looks up a version of a topic
+ * Without a version, or with "latest", returns the main document
+ */
+export function getTopicVersion(name: string, version?: string): TopicVersion | undefined {
+  const versions = getTopic(name)?.versions;
+  if (!versions) return undefined;
+
+  const wanted = version?.trim().toLowerCase();
+  if (!wanted || wanted === LATEST_VERSION) return versions[0];
+  return versions.find((candidate) => candidate.version === wanted);
+}
+
+/**
+ * Checks whether a topic is registered
+ */
+export function isKnownTopic(name: string): boolean {
+  return getRegistry().has(name);
+}
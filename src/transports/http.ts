@@ -0,0 +1,339 @@
+/**
+ * HTTP transport for hosting one shared server instance
+ * Serves MCP streamable HTTP on /mcp, the deprecated HTTP+SSE transport on
+ * /sse and /messages for older clients, a health check on /health and,
+ * optionally, Prometheus metrics on /metrics. Host and Origin headers are
+ * checked against DNS rebinding, and idle sessions are closed
+ */
+
+import http, { IncomingMessage, ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import { AddressInfo } from "net";
+import { Server } from "@modelcontextprotocol/sdk/server";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { PACKAGE_NAME, PACKAGE_VERSION } from "../types";
+import { getDocumentCacheStats } from "../documentStore";
+import { formatPrometheus } from "../metrics";
+import { logger } from "../utils/logger";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Creates a fresh MCP server for each client session */
+  createServer: () => Server;
+  /** Serve request metrics in the Prometheus text format on /metrics */
+  metrics?: boolean;
+  /** Host headers accepted (`host` or `host:port`); loopback names when bound to loopback, else any */
+  allowedHosts?: string[];
+  /** Origin headers accepted from browsers; loopback origins when bound to loopback, else any */
+  allowedOrigins?: string[];
+  /** Sessions without a request for this long are closed */
+  sessionIdleMs?: number;
+}
+
+export interface HttpServerHandle {
+  /** Address the server is listening on; port is resolved when 0 was requested */
+  host: string;
+  port: number;
+  /** Closes every session and stops accepting connections */
+  close: () => Promise<void>;
+}
+
+type Session = (
+  | { kind: "streamable"; transport: StreamableHTTPServerTransport; server: Server }
+  | { kind: "sse"; transport: SSEServerTransport; server: Server }
+) & {
+  /** Time of the session's last request, in ms since the epoch */
+  lastActive: number;
+};
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+/** Idle sessions are looked for at most this often */
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+class HttpError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Writes a JSON body with the given status
+ */
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+/**
+ * Writes a JSON-RPC error that isn't tied to a request id
+ */
+function sendRpcError(res: ServerResponse, statusCode: number, message: string): void {
+  sendJson(res, statusCode, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Whether the server is bound to a loopback interface, so only local clients can reach it
+ */
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+/**
+ * Checks a Host header against the allowed hosts, with or without a port
+ */
+function isAllowedHost(header: string | undefined, allowed: string[]): boolean {
+  if (!header) return false;
+  const host = header.toLowerCase();
+  const hostname = host.replace(/:\d+$/, "");
+  return allowed.some((entry) => entry.toLowerCase() === host || entry.toLowerCase() === hostname);
+}
+
+/**
+ * Reads and parses a JSON request body
+ * @throws HttpError if the body is too large or not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "Parse error: invalid JSON");
+  }
+}
+
+/**
+ * Starts the HTTP server
+ * Each client session gets its own MCP server from the factory, since a
+ * server instance can only be connected to one transport
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  // Without configured hosts, only a loopback binding has names that are known to be right
+  const allowedHosts = options.allowedHosts?.length
+    ? options.allowedHosts
+    : isLoopback(options.host)
+      ? LOOPBACK_HOSTS
+      : null;
+  const allowedOrigins = options.allowedOrigins?.length ? options.allowedOrigins : null;
+  if (!allowedHosts) {
+    logger.warn("Host header checks are off; set allowed hosts to protect against DNS rebinding", {
+      host: options.host,
+    });
+  }
+
+  /**
+   * Checks a browser's Origin header; without configured origins, its host must be an allowed host
+   */
+  function isAllowedOrigin(origin: string): boolean {
+    if (allowedOrigins) return allowedOrigins.includes(origin);
+    if (!allowedHosts) return true;
+    try {
+      return isAllowedHost(new URL(origin).host, allowedHosts);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Rejects requests for other hosts, and browser requests from other origins
+   * @throws HttpError if the Host or Origin header isn't allowed
+   */
+  function checkHeaders(req: IncomingMessage): void {
+    if (allowedHosts && !isAllowedHost(req.headers.host, allowedHosts)) {
+      throw new HttpError(403, "Forbidden: Host not allowed");
+    }
+    if (req.headers.origin && !isAllowedOrigin(req.headers.origin)) {
+      throw new HttpError(403, "Forbidden: Origin not allowed");
+    }
+  }
+
+  // Close sessions that had no request within the idle timeout
+  const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActive > cutoff) continue;
+      sessions.delete(sessionId);
+      logger.info("HTTP session expired", { sessionId });
+      session.server.close().catch((error) => logger.warn("Failed to close session", error));
+    }
+  }, Math.min(idleMs, MAX_SWEEP_INTERVAL_MS));
+  sweep.unref();
+
+  /**
+   * Handles POST, GET and DELETE on the streamable HTTP endpoint
+   */
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers["mcp-session-id"];
+    const existing = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+
+    if (existing) {
+      if (existing.kind !== "streamable") {
+        sendRpcError(res, 400, "Session uses a different transport");
+        return;
+      }
+      existing.lastActive = Date.now();
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId !== undefined) {
+      sendRpcError(res, 404, "Session not found");
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const server = options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { kind: "streamable", transport, server, lastActive: Date.now() });
+        logger.info("HTTP session started", { sessionId: id, transport: "streamable" });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info("HTTP session closed", { sessionId: transport.sessionId });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Opens an event stream for a client using the deprecated HTTP+SSE transport
+   */
+  async function handleSseStream(res: ServerResponse): Promise<void> {
+    const server = options.createServer();
+    const transport = new SSEServerTransport("/messages", res);
+    const sessionId = transport.sessionId;
+
+    sessions.set(sessionId, { kind: "sse", transport, server, lastActive: Date.now() });
+    transport.onclose = () => {
+      if (sessions.delete(sessionId)) {
+        logger.info("HTTP session closed", { sessionId });
+      }
+    };
+
+    logger.info("HTTP session started", { sessionId, transport: "sse" });
+    await server.connect(transport);
+  }
+
+  /**
+   * Forwards a message from a deprecated HTTP+SSE client to its session
+   */
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!session || session.kind !== "sse") {
+      sendRpcError(res, 404, "Session not found");
+      return;
+    }
+    session.lastActive = Date.now();
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    checkHeaders(req);
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (url.pathname === "/health" && req.method === "GET") {
+      sendJson(res, 200, {
+        status: "ok",
+        name: PACKAGE_NAME,
+        version: PACKAGE_VERSION,
+        sessions: sessions.size,
+        documentCache: getDocumentCacheStats(),
+      });
+      return;
+    }
+
+    if (options.metrics && url.pathname === "/metrics" && req.method === "GET") {
+      res
+        .writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" })
+        .end(formatPrometheus());
+      return;
+    }
+
+    if (url.pathname === "/mcp" && ["GET", "POST", "DELETE"].includes(req.method ?? "")) {
+      await handleStreamable(req, res);
+      return;
+    }
+
+    if (url.pathname === "/sse" && req.method === "GET") {
+      await handleSseStream(res);
+      return;
+    }
+
+    if (url.pathname === "/messages" && req.method === "POST") {
+      await handleSseMessage(req, res, url);
+      return;
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        logger.warn("Rejected HTTP request", { url: req.url, message: error.message });
+        if (!res.headersSent) sendRpcError(res, error.statusCode, error.message);
+        return;
+      }
+
+      logger.error("Unexpected error in HTTP handler", error);
+      if (!res.headersSent) sendRpcError(res, 500, "Internal server error");
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+
+  return {
+    host: options.host,
+    port: address.port,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all(
+        [...sessions.values()].map(({ server }) =>
+          server.close().catch((error) => logger.warn("Failed to close session", error))
+        )
+      );
+      sessions.clear();
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -5,6 +5,15 @@
 export const PACKAGE_NAME = "best-practices-mcp";
 export const PACKAGE_VERSION = "1.0.0";
 
+/**
+ * Default limit for practice files, in bytes (1 MiB)
+ */
+export const DEFAULT_MAX_FILE_SIZE = 1048576;
+
+/**
+ * Topics that ship with the server in src/data
+ * Additional topics can be discovered from external practice directories
+ */
 export const VALID_TOPICS = [
   "react",
   "nextjs",
@@ -17,7 +26,7 @@ export const VALID_TOPICS = [
 export type ValidTopic = (typeof VALID_TOPICS)[number];
 
 /**
- * Mapping of topic names to their corresponding markdown files
+ * Mapping of built-in topic names to their corresponding markdown files
  */
 export const TOPIC_TO_FILE: Record<ValidTopic, string> = {
   react: "react-best-practices.md",
@@ -28,6 +37,88 @@ export const TOPIC_TO_FILE: Record<ValidTopic, string> = {
   ui: "ui-best-practices.md",
 };
 
+/**
+ * Packages whose presence in imports or dependencies makes a topic relevant
+ * Matched against the package name, so "next/image" counts as "next"
+ */
+export const PACKAGE_TO_TOPICS: Record<string, ValidTopic[]> = {
+  react: ["react"],
+  "react-dom": ["react"],
+  next: ["nextjs", "react"],
+  typescript: ["typescript"],
+  zustand: ["zustand"],
+  "@tanstack/react-query": ["tanstack-query"],
+  tailwindcss: ["ui"],
+  "@radix-ui/react-slot": ["ui"],
+  "lucide-react": ["ui"],
+  "framer-motion": ["ui"],
+};
+
+export interface StackRecommendation {
+  category: string;
+  /** Packages that together fill the slot, e.g. react-hook-form + @hookform/resolvers */
+  packages: string[];
+  why: string;
+  /** Packages a project may use instead, which the recommendation would replace */
+  alternatives?: string[];
+}
+
+/**
+ * The recommended stack for React/Next.js applications, as listed in the README
+ */
+export const RECOMMENDED_STACK: StackRecommendation[] = [
+  {
+    category: "Data fetching",
+    packages: ["@tanstack/react-query"],
+    why: "Powerful caching & synchronization",
+    alternatives: ["swr", "@apollo/client"],
+  },
+  {
+    category: "State",
+    packages: ["zustand"],
+    why: "Small, scalable, no boilerplate",
+    alternatives: ["redux", "@reduxjs/toolkit", "mobx", "recoil", "jotai"],
+  },
+  {
+    category: "Forms",
+    packages: ["react-hook-form", "@hookform/resolvers"],
+    why: "Lightweight, performant",
+    alternatives: ["formik", "react-final-form"],
+  },
+  {
+    category: "Validation",
+    packages: ["zod"],
+    why: "Type-safe schema validation",
+    alternatives: ["yup", "joi", "superstruct"],
+  },
+  { category: "HTTP", packages: ["axios"], why: "Flexible request library" },
+  {
+    category: "Animations",
+    packages: ["framer-motion"],
+    why: "Declarative animations",
+    alternatives: ["react-spring"],
+  },
+  {
+    category: "Icons",
+    packages: ["lucide-react"],
+    why: "Clean icon set",
+    alternatives: ["react-icons", "@heroicons/react"],
+  },
+  {
+    category: "Dates",
+    packages: ["date-fns"],
+    why: "Lightweight date utils",
+    alternatives: ["moment", "dayjs", "luxon"],
+  },
+  { category: "SEO", packages: ["next-seo"], why: "Manage OpenGraph + meta tags" },
+  {
+    category: "Lint/format",
+    packages: ["@biomejs/biome"],
+    why: "Unified lint + format engine",
+    alternatives: ["eslint", "prettier"],
+  },
+];
+
 export interface PracticeContent {
   topic: ValidTopic;
   content: string;
@@ -37,3 +37,27 @@ export class FileReadError extends MCPError {
   }
 }
 
+export class FileTooLargeError extends MCPError {
+  constructor(
+    public resource: string,
+    public size: number,
+    public maxSize: number
+  ) {
+    super('FILE_TOO_LARGE', `${resource} is ${size} bytes, above the ${maxSize} byte limit`, 413);
+  }
+}
+
+export class SectionNotFoundError extends NotFoundError {
+  constructor(topic: string, section: string) {
+    super(`Section "${section}" in topic: ${topic}`);
+  }
+}
+
+export class VersionNotFoundError extends NotFoundError {
+  constructor(
+    public topic: string,
+    public version: string
+  ) {
+    super(`Version "${version}" of topic: ${topic}`);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * YAML front matter parsing for practice documents
+ */
+
+import { parse as parseYaml } from 'yaml';
+
+export interface FrontMatterResult {
+  /** Raw front matter values, or an empty object if the document has none */
+  data: Record<string, unknown>;
+  /** Document content after the front matter block */
+  body: string;
+  /** 1-based line number in the original file where the body starts */
+  bodyStartLine: number;
+}
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Splits a markdown document into its front matter and body
+ * @throws Error if the front matter is not valid YAML or not a mapping
+ */
+export function parseFrontMatter(markdown: string): FrontMatterResult {
+  const content = markdown.replace(/^\uFEFF/, '');
+  const match = content.match(FRONT_MATTER_PATTERN);
+
+  if (!match) {
+    return { data: {}, body: content, bodyStartLine: 1 };
+  }
+
+  const parsed = parseYaml(match[1]) ?? {};
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Front matter must be a YAML mapping');
+  }
+
+  return {
+    data: parsed as Record<string, unknown>,
+    body: content.slice(match[0].length),
+    bodyStartLine: match[0].split('\n').length,
+  };
+}
+
+/**
+ * Removes the front matter block from a markdown document, if present
+ */
+export function stripFrontMatter(markdown: string): string {
+  const content = markdown.replace(/^\uFEFF/, '');
+  const match = content.match(FRONT_MATTER_PATTERN);
+  return match ? content.slice(match[0].length) : content;
+}
@@ -1,60 +1,209 @@
 /**
  * Structured logging utility
+ * Entries below the configured level are dropped; the rest are written to
+ * every registered sink (stderr by default)
  */
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+import { appendFileSync, existsSync, renameSync, rmSync, statSync } from 'fs';
 
-interface LogEntry {
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  /** MCPError code, or a Node.js system error code such as ENOENT */
+  code?: string;
+  stack?: string;
+  cause?: SerializedError | string;
+}
+
+export interface LogEntry {
   level: LogLevel;
   message: string;
   timestamp: string;
+  /** Context bound by child loggers, e.g. the request ID */
+  context?: Record<string, unknown>;
   data?: any;
-  error?: string;
+  error?: SerializedError | string;
+}
+
+export interface LogSink {
+  /** Lowest level this sink receives; defaults to the configured log level */
+  level?: LogLevel;
+  write: (entry: LogEntry) => void;
+}
+
+export interface Logger {
+  debug: (message: string, data?: any) => void;
+  info: (message: string, data?: any) => void;
+  warn: (message: string, data?: any) => void;
+  /** Accepts an error, structured data, or both */
+  error: (message: string, error?: unknown, data?: any) => void;
+  /** Creates a logger that adds the given context to every entry */
+  child: (context: Record<string, unknown>) => Logger;
+  /** Creates a logger that also writes to the given sink; other loggers never reach it */
+  withSink: (sink: LogSink) => Logger;
 }
 
+const MAX_CAUSE_DEPTH = 3;
+
+const stderrSink: LogSink = {
+  write: (entry) => console.error(formatLog(entry)),
+};
+
+const sinks = new Set<LogSink>([stderrSink]);
+let minLevel: LogLevel = 'info';
+
 function formatLog(entry: LogEntry): string {
   return JSON.stringify(entry);
 }
 
-export const logger = {
-  debug: (message: string, data?: any) => {
-    const entry: LogEntry = {
-      level: 'debug',
-      message,
-      timestamp: new Date().toISOString(),
-      ...(data && { data }),
-    };
-    console.error(formatLog(entry));
-  },
-
-  info: (message: string, data?: any) => {
-    const entry: LogEntry = {
-      level: 'info',
-      message,
-      timestamp: new Date().toISOString(),
-      ...(data && { data }),
-    };
-    console.error(formatLog(entry));
-  },
-
-  warn: (message: string, data?: any) => {
-    const entry: LogEntry = {
-      level: 'warn',
-      message,
-      timestamp: new Date().toISOString(),
-      ...(data && { data }),
-    };
-    console.error(formatLog(entry));
-  },
-
-  error: (message: string, error?: any) => {
-    const entry: LogEntry = {
-      level: 'error',
-      message,
-      timestamp: new Date().toISOString(),
-      error: error instanceof Error ? error.message : String(error),
-    };
-    console.error(formatLog(entry));
-  },
-};
+function severity(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+/**
+ * Sets the lowest level written to sinks without their own level
+ */
+export function setLogLevel(level: LogLevel): void {
+  minLevel = level;
+}
+
+export function getLogLevel(): LogLevel {
+  return minLevel;
+}
 
+/**
+ * Registers an additional sink
+ * @returns A function that removes the sink
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+/**
+ * Converts an error into a JSON-friendly object, keeping its stack, code and cause chain
+ */
+export function serializeError(error: unknown, depth = 0): SerializedError | string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+
+  const code = 'code' in error && typeof error.code === 'string' ? error.code : undefined;
+  const cause =
+    error.cause !== undefined && depth < MAX_CAUSE_DEPTH
+      ? serializeError(error.cause, depth + 1)
+      : undefined;
+
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code && { code }),
+    ...(error.stack && { stack: error.stack }),
+    ...(cause !== undefined && { cause }),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function write(
+  level: LogLevel,
+  context: Record<string, unknown>,
+  ownSinks: LogSink[],
+  fields: Partial<LogEntry>
+): void {
+  const targets = [...sinks, ...ownSinks].filter((sink) => severity(level) >= severity(sink.level ?? minLevel));
+  if (targets.length === 0) return;
+
+  const entry: LogEntry = {
+    level,
+    message: fields.message ?? '',
+    timestamp: new Date().toISOString(),
+    ...(Object.keys(context).length > 0 && { context }),
+    ...(fields.data !== undefined && { data: fields.data }),
+    ...(fields.error !== undefined && { error: fields.error }),
+  };
+
+  for (const sink of targets) {
+    try {
+      sink.write(entry);
+    } catch {
+      // A failing sink must never break the caller
+    }
+  }
+}
+
+function createLogger(context: Record<string, unknown>, ownSinks: LogSink[] = []): Logger {
+  return {
+    debug: (message, data) => write('debug', context, ownSinks, { message, data }),
+    info: (message, data) => write('info', context, ownSinks, { message, data }),
+    warn: (message, data) => write('warn', context, ownSinks, { message, data }),
+    error: (message, error, data) => {
+      // Structured data passed in place of an error is logged as data
+      if (isPlainObject(error) && data === undefined) {
+        write('error', context, ownSinks, { message, data: error });
+        return;
+      }
+      write('error', context, ownSinks, {
+        message,
+        data,
+        ...(error !== undefined && { error: serializeError(error) }),
+      });
+    },
+    child: (childContext) => createLogger({ ...context, ...childContext }, ownSinks),
+    withSink: (sink) => createLogger(context, [...ownSinks, sink]),
+  };
+}
+
+export const logger: Logger = createLogger({});
+
+export interface FileSinkOptions {
+  /** Rotate once the file would grow beyond this many bytes */
+  maxBytes: number;
+  /** Number of rotated files to keep next to the active one (file.1, file.2, ...) */
+  maxFiles: number;
+  level?: LogLevel;
+}
+
+/**
+ * Creates a sink appending JSON lines to a file, rotating it by size
+ * Writes are synchronous so entries are never lost or reordered on exit
+ */
+export function createFileSink(filePath: string, options: FileSinkOptions): LogSink {
+  let size = existsSync(filePath) ? statSync(filePath).size : 0;
+
+  const rotate = () => {
+    rmSync(`${filePath}.${options.maxFiles}`, { force: true });
+    for (let index = options.maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${filePath}.${index}`)) {
+        renameSync(`${filePath}.${index}`, `${filePath}.${index + 1}`);
+      }
+    }
+    if (options.maxFiles > 0 && existsSync(filePath)) {
+      renameSync(filePath, `${filePath}.1`);
+    } else {
+      rmSync(filePath, { force: true });
+    }
+    size = 0;
+  };
+
+  return {
+    level: options.level,
+    write: (entry) => {
+      const line = `${formatLog(entry)}\n`;
+      const bytes = Buffer.byteLength(line);
+      if (size > 0 && size + bytes > options.maxBytes) {
+        rotate();
+      }
+      appendFileSync(filePath, line);
+      size += bytes;
+    },
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * Markdown section parser for practice documents
+ *
+ * The practice files use several heading styles side by side:
+ * ATX headings (`## 4) Rendering`), bare numbered lines (`2.3 Adhere to Naming`),
+ * emoji-prefixed lines (`🔒 3. Private State`) and keycap numbers (`5️⃣ UI & UX`).
+ * This module normalizes all of them into a single section tree.
+ */
+
+export interface Section {
+  /** Section number as written in the document (e.g. "2.3"), if any */
+  number: string | null;
+  /** Heading text without emoji, numbering or markdown syntax */
+  title: string;
+  /** URL-friendly identifier, unique within the document */
+  slug: string;
+  /** Nesting depth, starting at 1 for top-level sections */
+  level: number;
+  /** 1-based line number of the heading */
+  line: number;
+  /** 1-based line number of the last line belonging to the section */
+  endLine: number;
+  children: Section[];
+}
+
+export interface MarkdownDocument {
+  /** Document title taken from a leading `# Title` heading, if present */
+  title: string | null;
+  lines: string[];
+  sections: Section[];
+}
+
+interface HeadingCandidate {
+  line: number;
+  number: string | null;
+  title: string;
+  atxDepth: number | null;
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const ATX_PATTERN = /^(#{1,6})\s*(.*?)\s*#*\s*$/;
+const KEYCAP_PATTERN = /^(\d)\uFE0F?\u20E3\s*/u;
+const KEYCAP_TEN_PATTERN = /^\u{1F51F}\s*/u;
+const LEADING_EMOJI_PATTERN =
+  /^(?:[\p{Extended_Pictographic}\p{Emoji_Presentation}](?:\uFE0F|\u200D\p{Extended_Pictographic})*\s*)+/u;
+const NUMBERED_PATTERN = /^(\d+(?:\.\d+)*)(?:[.)]\s*|\s+)(\S.*)$/;
+
+/**
+ * Emoji used inline as do/don't markers; lines starting with them are
+ * rules, not headings
+ */
+const MARKER_EMOJI = ['✅', '❌', '⚠', '💡', '👉', '➡'];
+
+const MAX_BARE_HEADING_LENGTH = 100;
+
+/**
+ * Converts heading text into a URL-friendly slug
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Splits heading text into its number and title, dropping decorative emoji
+ */
+function splitHeadingText(text: string): { number: string | null; title: string; emoji: string } {
+  const keycap = text.match(KEYCAP_PATTERN);
+  if (keycap) {
+    return { number: keycap[1], title: text.slice(keycap[0].length).trim(), emoji: '' };
+  }
+
+  const keycapTen = text.match(KEYCAP_TEN_PATTERN);
+  if (keycapTen) {
+    return { number: '10', title: text.slice(keycapTen[0].length).trim(), emoji: '' };
+  }
+
+  const emojiMatch = text.match(LEADING_EMOJI_PATTERN);
+  const emoji = emojiMatch ? emojiMatch[0].trim() : '';
+  const rest = emojiMatch ? text.slice(emojiMatch[0].length) : text;
+
+  const numbered = rest.match(NUMBERED_PATTERN);
+  if (numbered) {
+    return { number: numbered[1], title: numbered[2].trim(), emoji };
+  }
+
+  return { number: null, title: rest.trim(), emoji };
+}
+
+function isMarkerEmoji(emoji: string): boolean {
+  return MARKER_EMOJI.some((marker) => emoji.startsWith(marker));
+}
+
+/**
+ * Detects a heading on a single line outside of code fences
+ */
+function detectHeading(rawLine: string, lineNumber: number): HeadingCandidate | null {
+  const line = rawLine.trim();
+  if (!line) return null;
+
+  const atx = rawLine.match(ATX_PATTERN);
+  if (atx && atx[2]) {
+    const { number, title } = splitHeadingText(atx[2]);
+    if (!title) return null;
+    return { line: lineNumber, number, title, atxDepth: atx[1].length };
+  }
+
+  if (line.length > MAX_BARE_HEADING_LENGTH || /[.:;,]$/.test(line) || line.includes('\t')) {
+    return null;
+  }
+
+  const { number, title, emoji } = splitHeadingText(line);
+  if (!title) return null;
+
+  // Bare numbered lines: "2.3 Adhere to Naming", "🔒 3. Private State", "5️⃣ UI & UX"
+  if (number) {
+    return { line: lineNumber, number, title, atxDepth: null };
+  }
+
+  // Bare emoji-prefixed lines: "🏁 Summary", "🎯 Research & Define User Goals"
+  if (emoji && !isMarkerEmoji(emoji)) {
+    return { line: lineNumber, number: null, title, atxDepth: null };
+  }
+
+  return null;
+}
+
+/**
+ * Collects heading candidates, skipping anything inside fenced code blocks
+ */
+function collectHeadings(lines: string[]): HeadingCandidate[] {
+  const headings: HeadingCandidate[] = [];
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+
+    const heading = detectHeading(line, index + 1);
+    if (heading) headings.push(heading);
+  });
+
+  return headings;
+}
+
+/**
+ * Assigns a nesting level to each heading.
+ * Numbered headings use the depth of their number, ATX headings their depth
+ * relative to the shallowest ATX heading, and bare emoji headings nest under
+ * the preceding numbered section unless they trail the last one.
+ */
+function assignLevels(headings: HeadingCandidate[]): number[] {
+  const atxDepths = headings
+    .filter((h) => h.atxDepth !== null)
+    .map((h) => h.atxDepth as number);
+  const minAtxDepth = atxDepths.length > 0 ? Math.min(...atxDepths) : 1;
+  const lastNumberedIndex = headings.map((h) => h.number !== null).lastIndexOf(true);
+
+  let seenNumbered = false;
+  return headings.map((heading, index) => {
+    if (heading.number !== null) {
+      seenNumbered = true;
+      return heading.number.split('.').length;
+    }
+    if (heading.atxDepth !== null) {
+      return heading.atxDepth - minAtxDepth + 1;
+    }
+    return seenNumbered && index < lastNumberedIndex ? 2 : 1;
+  });
+}
+
+/**
+ * Parses a markdown document into a tree of sections
+ */
+export function parseDocument(markdown: string): MarkdownDocument {
+  const lines = markdown.split(/\r?\n/);
+  const headings = collectHeadings(lines);
+
+  // A leading unnumbered `# Title` is the document title, not a section
+  let title: string | null = null;
+  if (headings.length > 0 && headings[0].atxDepth === 1 && headings[0].number === null) {
+    title = headings[0].title;
+    headings.shift();
+  }
+
+  const levels = assignLevels(headings);
+  const usedSlugs = new Map<string, number>();
+  const roots: Section[] = [];
+  const stack: Section[] = [];
+
+  headings.forEach((heading, index) => {
+    const baseSlug = slugify(heading.title) || `section-${index + 1}`;
+    const count = usedSlugs.get(baseSlug) ?? 0;
+    usedSlugs.set(baseSlug, count + 1);
+
+    const section: Section = {
+      number: heading.number,
+      title: heading.title,
+      slug: count === 0 ? baseSlug : `${baseSlug}-${count + 1}`,
+      level: levels[index],
+      line: heading.line,
+      endLine: lines.length,
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) {
+      const closed = stack.pop() as Section;
+      closed.endLine = section.line - 1;
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(section);
+    } else {
+      roots.push(section);
+    }
+    stack.push(section);
+  });
+
+  return { title, lines, sections: roots };
+}
+
+/**
+ * Flattens a section tree into document order
+ */
+export function flattenSections(sections: Section[]): Section[] {
+  return sections.flatMap((section) => [section, ...flattenSections(section.children)]);
+}
+
+/**
+ * Finds a section by number ("7", "2.3") or by slug/title ("query-keys-invalidation")
+ */
+export function findSection(document: MarkdownDocument, selector: string): Section | undefined {
+  const normalized = selector.trim().replace(/[.)]$/, '');
+  const all = flattenSections(document.sections);
+
+  const byNumber = all.find((section) => section.number === normalized);
+  if (byNumber) return byNumber;
+
+  const slug = slugify(selector);
+  return all.find((section) => section.slug === slug);
+}
+
+/**
+ * Returns the markdown text of a section, including its subsections
+ */
+export function getSectionText(document: MarkdownDocument, section: Section): string {
+  return document.lines
+    .slice(section.line - 1, section.endLine)
+    .join('\n')
+    .trim();
+}
+
+export interface CodeBlock {
+  /** 1-based position of the block within the document */
+  index: number;
+  /** Language tag of the fence, lowercased, if any */
+  language: string | null;
+  code: string;
+  /** 1-based line number of the opening fence */
+  line: number;
+  /** Innermost section containing the block, if any */
+  section: Section | null;
+  /** Explanatory line directly preceding the block, if any */
+  context: string | null;
+}
+
+/**
+ * Finds the innermost section containing a line
+ */
+export function findSectionAtLine(sections: Section[], line: number): Section | null {
+  for (const section of sections) {
+    if (line >= section.line && line <= section.endLine) {
+      return findSectionAtLine(section.children, line) ?? section;
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the closest non-blank line before a fence, unless it is a heading or another fence
+ */
+function findContext(document: MarkdownDocument, fenceLine: number, section: Section | null): string | null {
+  for (let line = fenceLine - 1; line >= 1; line--) {
+    const text = document.lines[line - 1].trim();
+    if (!text) continue;
+    if (FENCE_PATTERN.test(text) || line === section?.line) return null;
+    return text;
+  }
+  return null;
+}
+
+/**
+ * Extracts all fenced code blocks with their surrounding heading and context
+ */
+export function extractCodeBlocks(document: MarkdownDocument): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  let open: { line: number; language: string | null; body: string[] } | null = null;
+
+  document.lines.forEach((text, index) => {
+    const lineNumber = index + 1;
+
+    if (!FENCE_PATTERN.test(text)) {
+      open?.body.push(text);
+      return;
+    }
+
+    if (!open) {
+      const language = text.trim().replace(/^(```|~~~)/, '').trim().split(/\s+/)[0];
+      open = { line: lineNumber, language: language ? language.toLowerCase() : null, body: [] };
+      return;
+    }
+
+    const section = findSectionAtLine(document.sections, open.line);
+    blocks.push({
+      index: blocks.length + 1,
+      language: open.language,
+      code: open.body.join('\n'),
+      line: open.line,
+      section,
+      context: findContext(document, open.line, section),
+    });
+    open = null;
+  });
+
+  return blocks;
+}
@@ -0,0 +1,100 @@
+/**
+ * Log sink forwarding entries to an MCP client as notifications/message
+ * Nothing is sent until the client picks a level with logging/setLevel.
+ * Only entries written through the server's own logger are forwarded, so a
+ * client never sees the transport's entries or those of other sessions. Entries
+ * are reduced to their message and request context, since data and errors can
+ * carry stacks, file system messages and host paths
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server';
+import {
+  LoggingLevel,
+  LoggingLevelSchema,
+  SetLevelRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { PACKAGE_NAME } from '../types';
+import { logger, LogEntry, Logger, LogLevel, LogSink } from './logger';
+
+const MCP_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+};
+
+/**
+ * Context keys a client may see; others, such as file paths, stay on the server
+ */
+const CLIENT_CONTEXT_KEYS = ['requestId', 'sessionId'];
+
+/**
+ * Fields of an entry sent to the client
+ */
+export interface ClientLogData {
+  message: string;
+  timestamp: string;
+  context?: Record<string, string | number>;
+}
+
+/**
+ * Reduces an entry to what a client may see
+ */
+function toClientData(entry: LogEntry): ClientLogData {
+  const context = Object.fromEntries(
+    Object.entries(entry.context ?? {}).filter(
+      (pair): pair is [string, string | number] =>
+        CLIENT_CONTEXT_KEYS.includes(pair[0]) && ['string', 'number'].includes(typeof pair[1])
+    )
+  );
+  return {
+    message: entry.message,
+    timestamp: entry.timestamp,
+    ...(Object.keys(context).length > 0 && { context }),
+  };
+}
+
+function mcpSeverity(level: LoggingLevel): number {
+  return LoggingLevelSchema.options.indexOf(level);
+}
+
+/**
+ * Lowest logger level that can pass the client's level
+ */
+function toLogLevel(level: LoggingLevel): LogLevel {
+  if (level === 'debug' || level === 'info') return level;
+  return mcpSeverity(level) <= mcpSeverity('warning') ? 'warn' : 'error';
+}
+
+/**
+ * Handles logging/setLevel for a server and creates the logger whose entries reach its client
+ * The server must declare the logging capability
+ * @param base - Logger the entries are also written to
+ * @returns A logger writing to the base logger's sinks and to the client
+ */
+export function createMcpLogger(server: Server, base: Logger = logger): Logger {
+  let clientLevel: LoggingLevel | null = null;
+
+  const sink: LogSink = {
+    level: 'error',
+    write: (entry) => {
+      if (!clientLevel) return;
+      const level = MCP_LEVELS[entry.level];
+      if (mcpSeverity(level) < mcpSeverity(clientLevel)) return;
+
+      server
+        .sendLoggingMessage({ level, logger: PACKAGE_NAME, data: toClientData(entry) })
+        .catch(() => {
+          // The client may have disconnected; logging here would recurse
+        });
+    },
+  };
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLevel = request.params.level;
+    sink.level = toLogLevel(clientLevel);
+    return {};
+  });
+
+  return base.withSink(sink);
+}
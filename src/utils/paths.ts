@@ -0,0 +1,17 @@
+/**
+ * Path helpers shared by everything that reads from practice directories
+ */
+
+import path from 'path';
+
+/**
+ * Validates that a resolved path is within the base directory
+ * Prevents path traversal attacks
+ */
+export function validatePath(basePath: string, targetPath: string): boolean {
+  const normalized = path.normalize(targetPath);
+  const base = path.normalize(basePath);
+
+  // Ensure target is within base directory
+  return normalized.startsWith(base + path.sep) || normalized === base;
+}
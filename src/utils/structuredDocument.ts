@@ -0,0 +1,164 @@
+/**
+ * Structured form of practice documents for automation
+ * Splits each section into prose, code blocks and the do/don't rules marked
+ * with ✅ and ❌, so clients don't have to re-parse markdown
+ */
+
+import { z } from 'zod';
+import { MarkdownDocument, Section } from './markdown';
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const LIST_MARKER_PATTERN = /^(?:[-*+]|\d+[.)])\s+/;
+
+const codeBlockSchema = z.object({
+  language: z.string().nullable().describe('Fence language tag, lowercased'),
+  code: z.string(),
+});
+
+const contentFields = {
+  body: z.string().describe('Prose of the section itself, without code blocks or subsections'),
+  codeBlocks: z.array(codeBlockSchema),
+  dos: z.array(z.string()).describe('Rules marked with ✅'),
+  donts: z.array(z.string()).describe('Rules marked with ❌'),
+};
+
+const contentSchema = z.object(contentFields);
+
+export type StructuredContent = z.infer<typeof contentSchema>;
+
+export interface StructuredSection extends StructuredContent {
+  number: string | null;
+  title: string;
+  slug: string;
+  level: number;
+  children: StructuredSection[];
+}
+
+const sectionSchema: z.ZodType<StructuredSection> = z.object({
+  number: z.string().nullable().describe('Section number as written, e.g. "2.3"'),
+  title: z.string(),
+  slug: z.string().describe('Identifier accepted as `section` by get_best_practice'),
+  level: z.number().int().describe('Nesting depth, 1 for top-level sections'),
+  ...contentFields,
+  get children() {
+    return z.array(sectionSchema);
+  },
+});
+
+/**
+ * Schema for the structuredContent of get_best_practice
+ * Markdown results only carry what was returned; JSON results carry the whole structure
+ */
+export const practiceOutputSchema = z.object({
+  format: z.enum(['markdown', 'json']),
+  topic: z.string(),
+  version: z.string().describe('Version label of the document that was read'),
+  section: z.string().optional().describe('Slug of the requested section, if any'),
+  detail: z.enum(['full', 'summary']).optional().describe('Whether the markdown was condensed into a summary'),
+  omitted: z
+    .array(z.string())
+    .optional()
+    .describe('practice:// URIs of the sections left out of the summary to fit max_tokens'),
+  overrides: z
+    .array(
+      z.object({
+        section: z.string().describe('Slug of the section'),
+        number: z.string().nullable(),
+        title: z.string(),
+        action: z.enum(['replaced', 'suppressed', 'annotated', 'added']),
+      })
+    )
+    .optional()
+    .describe("Sections of the result changed by the team's overlay"),
+  title: z.string().nullable().optional(),
+  preamble: contentSchema.optional().describe('Content before the first section'),
+  sections: z.array(sectionSchema).optional(),
+});
+
+export type PracticeOutput = z.infer<typeof practiceOutputSchema>;
+
+/**
+ * JSON Schema of practiceOutputSchema, declared as the tool's outputSchema
+ */
+export function getPracticeOutputJsonSchema() {
+  const { $schema: _schema, ...schema } = z.toJSONSchema(practiceOutputSchema, { target: 'draft-7' });
+  return schema as { type: 'object'; [key: string]: unknown };
+}
+
+/**
+ * Returns a rule's text if the line is marked with ✅ or ❌
+ */
+function parseMarker(line: string): { kind: 'do' | 'dont'; text: string } | null {
+  const text = line.trim().replace(LIST_MARKER_PATTERN, '');
+  if (text.startsWith('✅')) return { kind: 'do', text: text.slice('✅'.length).trim() };
+  if (text.startsWith('❌')) return { kind: 'dont', text: text.slice('❌'.length).trim() };
+  return null;
+}
+
+/**
+ * Splits lines into prose, code blocks and do/don't rules
+ */
+function structureLines(lines: string[]): StructuredContent {
+  const body: string[] = [];
+  const content: StructuredContent = { body: '', codeBlocks: [], dos: [], donts: [] };
+  let fence: { language: string | null; code: string[] } | null = null;
+
+  for (const line of lines) {
+    if (FENCE_PATTERN.test(line)) {
+      if (fence) {
+        content.codeBlocks.push({ language: fence.language, code: fence.code.join('\n') });
+        fence = null;
+      } else {
+        const language = line.trim().replace(/^(```|~~~)/, '').trim().split(/\s+/)[0];
+        fence = { language: language ? language.toLowerCase() : null, code: [] };
+      }
+      continue;
+    }
+
+    if (fence) {
+      fence.code.push(line);
+      continue;
+    }
+
+    body.push(line);
+    const marker = parseMarker(line);
+    if (marker?.text) {
+      (marker.kind === 'do' ? content.dos : content.donts).push(marker.text);
+    }
+  }
+
+  // An unclosed fence runs to the end, as in rendered markdown
+  if (fence) {
+    content.codeBlocks.push({ language: fence.language, code: fence.code.join('\n') });
+  }
+
+  content.body = body.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  return content;
+}
+
+/**
+ * Converts a section and its subsections
+ */
+export function structureSection(document: MarkdownDocument, section: Section): StructuredSection {
+  const ownEnd = section.children[0] ? section.children[0].line - 1 : section.endLine;
+
+  return {
+    number: section.number,
+    title: section.title,
+    slug: section.slug,
+    level: section.level,
+    ...structureLines(document.lines.slice(section.line, ownEnd)),
+    children: section.children.map((child) => structureSection(document, child)),
+  };
+}
+
+/**
+ * Converts the content before the first section, without the document title
+ */
+export function structurePreamble(document: MarkdownDocument): StructuredContent {
+  const end = document.sections[0] ? document.sections[0].line - 1 : document.lines.length;
+  const lines = document.lines.slice(0, end);
+  const titleIndex = document.title ? lines.findIndex((line) => /^#\s/.test(line)) : -1;
+
+  return structureLines(lines.filter((_, index) => index !== titleIndex));
+}
@@ -0,0 +1,102 @@
+/**
+ * Condensed form of practice documents for small context windows
+ * Keeps each section's heading, its ✅ rules and a one-line takeaway, and
+ * drops the deepest, latest sections first when a token budget is exceeded
+ */
+
+import { flattenSections, MarkdownDocument, Section } from './markdown';
+import { structureSection } from './structuredDocument';
+import { estimateTokens } from './tokens';
+
+export interface SummaryOptions {
+  /** Heading of the summary */
+  title: string;
+  /** Sections to summarize with their subsections; the whole document by default */
+  sections?: Section[];
+  /** Token budget; sections are dropped until the summary fits */
+  maxTokens?: number;
+  /** Renders the marker listing the sections that were left out */
+  formatOmitted: (omitted: Section[]) => string;
+}
+
+export interface SummaryResult {
+  text: string;
+  /** Sections left out to fit the budget, in document order */
+  omitted: Section[];
+}
+
+const MAX_TAKEAWAY_LENGTH = 160;
+const LIST_MARKER_PATTERN = /^(?:[-*+]|\d+[.)])\s+/;
+
+/**
+ * Returns the first sentence of a section's prose, skipping rules, tables and quotes
+ * Lines introducing a list ("Use:") and short labels only count if nothing better follows
+ */
+function takeaway(body: string): string | null {
+  const lines = body
+    .split('\n')
+    .map((line) => line.trim().replace(LIST_MARKER_PATTERN, ''))
+    .filter((line) => line && !line.includes('\t') && !/^[✅❌|>#]/u.test(line));
+  const line = lines.find((text) => !text.endsWith(':') && text.split(/\s+/).length >= 4) ?? lines[0];
+  if (!line) return null;
+
+  const sentence = line.match(/^(.+?[.!?])(?:\s|$)/)?.[1] ?? line;
+  return sentence.length > MAX_TAKEAWAY_LENGTH
+    ? `${sentence.slice(0, MAX_TAKEAWAY_LENGTH - 1)}…`
+    : sentence;
+}
+
+/**
+ * Renders one section of the summary, without its subsections
+ */
+function summarizeSection(document: MarkdownDocument, section: Section, baseLevel: number): string {
+  const { dos, body } = structureSection(document, section);
+  const heading = '#'.repeat(Math.min(6, section.level - baseLevel + 2));
+  const number = section.number ? `${section.number} ` : '';
+  const line = takeaway(body);
+
+  return [
+    `${heading} ${number}${section.title}`,
+    ...(line ? ['', line] : []),
+    ...(dos.length > 0 ? ['', ...dos.map((rule) => `- ✅ ${rule}`)] : []),
+  ].join('\n');
+}
+
+/**
+ * Summarizes a document, or some of its sections, within an optional token budget
+ * Truncation is stable: the same document and budget always drop the same sections,
+ * subsections before their parents and later sections before earlier ones
+ */
+export function summarizeDocument(document: MarkdownDocument, options: SummaryOptions): SummaryResult {
+  const roots = options.sections ?? document.sections;
+  const baseLevel = roots.length > 0 ? Math.min(...roots.map((section) => section.level)) : 1;
+  const entries = flattenSections(roots).map((section) => ({
+    section,
+    text: summarizeSection(document, section, baseLevel),
+  }));
+
+  const render = (kept: Set<Section>): SummaryResult => {
+    const omitted = entries.filter(({ section }) => !kept.has(section)).map(({ section }) => section);
+    const parts = [
+      `# ${options.title}`,
+      ...entries.filter(({ section }) => kept.has(section)).map(({ text }) => text),
+      ...(omitted.length > 0 ? [options.formatOmitted(omitted)] : []),
+    ];
+    return { text: parts.join('\n\n'), omitted };
+  };
+
+  const kept = new Set(entries.map(({ section }) => section));
+  let result = render(kept);
+  if (options.maxTokens === undefined) return result;
+
+  const dropOrder = [...entries].sort(
+    (a, b) => b.section.level - a.section.level || b.section.line - a.section.line
+  );
+  for (const { section } of dropOrder) {
+    if (estimateTokens(result.text) <= options.maxTokens) break;
+    kept.delete(section);
+    result = render(kept);
+  }
+
+  return result;
+}
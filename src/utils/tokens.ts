@@ -0,0 +1,16 @@
+/**
+ * Token estimates for budgeting tool output
+ */
+
+/**
+ * Average number of characters per token in English prose and code
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates how many tokens a text takes up in a model's context
+ * A rough, tokenizer-independent estimate that errs on the high side for prose
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
@@ -3,27 +3,288 @@
  */
 
 import { z } from 'zod';
-import { VALID_TOPICS } from './types';
+import { getTopicNames, isKnownTopic } from './topics';
+
+/**
+ * Metadata key marking topic fields; the tool registry lists the known topics
+ * as the field's enum when it converts a schema to JSON Schema
+ */
+export const TOPIC_FIELD_META = 'x-topic';
+
+/**
+ * Schema for a single topic name
+ * Checked against the topics discovered in the configured practice directories
+ */
+const topicSchema = z
+  .string()
+  .min(1, 'Topic cannot be empty')
+  .max(50, 'Topic too long')
+  .toLowerCase()
+  .refine((val) => isKnownTopic(val), {
+    error: () => `Invalid topic. Must be one of: ${getTopicNames().join(', ')}`,
+  })
+  .describe('Topic to fetch best practices for')
+  .meta({ [TOPIC_FIELD_META]: true });
+
+/**
+ * Schema for a section selector: a section number or slug
+ */
+const sectionSchema = z
+  .string()
+  .min(1, 'Section cannot be empty')
+  .max(100, 'Section too long')
+  .describe('Section number (e.g. "7", "2.3") or slug (e.g. "query-keys-invalidation")');
+
+/**
+ * Schema for a version label of a topic
+ * Whether the topic has the version is checked when its document is loaded
+ */
+const versionSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, 'Version cannot be empty')
+  .max(30, 'Version too long')
+  .describe(
+    'Optional version of the practices for topics that have several, e.g. "v4" or "pages-router". Defaults to "latest"'
+  );
 
 /**
  * Schema for get_best_practice tool input
  */
-export const getPracticeSchema = z.object({
-  topic: z
+export const getPracticeSchema = z
+  .object({
+    topic: topicSchema,
+    section: sectionSchema
+      .optional()
+      .describe(
+        'Optional section number (e.g. "7", "2.3") or slug (e.g. "query-keys-invalidation"). Omit to get the whole document'
+      ),
+    version: versionSchema.optional(),
+    format: z
+      .enum(['markdown', 'json'], { error: 'Format must be "markdown" or "json"' })
+      .optional()
+      .describe(
+        'Output format. "markdown" (default) returns the text; "json" returns the section tree with body text, code blocks and do/don\'t lists as structured content'
+      ),
+    detail: z
+      .enum(['full', 'summary'], { error: 'Detail must be "full" or "summary"' })
+      .optional()
+      .describe(
+        '"summary" condenses the markdown to headings, ✅ rules and one-line takeaways. Defaults to "full"; cannot be "full" with max_tokens'
+      ),
+    max_tokens: z
+      .number()
+      .int()
+      .min(100, 'max_tokens must be at least 100')
+      .max(100000, 'max_tokens cannot exceed 100000')
+      .optional()
+      .describe(
+        "Optional token budget for the markdown. A document or section that doesn't fit is summarized, dropping the deepest and latest sections first; the omitted sections are listed at the end and in structuredContent.omitted"
+      ),
+  })
+  .refine((input) => input.format !== 'json' || (input.detail === undefined && input.max_tokens === undefined), {
+    error: 'detail and max_tokens only apply to the markdown format',
+  })
+  .refine((input) => input.detail !== 'full' || input.max_tokens === undefined, {
+    error: 'detail "full" cannot be combined with max_tokens; omit detail to summarize only what exceeds the budget',
+  });
+
+export type GetPracticeInput = z.infer<typeof getPracticeSchema>;
+
+/**
+ * Schema for list_practice_sections tool input
+ */
+export const listSectionsSchema = z.object({
+  topic: topicSchema.describe('Topic to list sections for'),
+  version: versionSchema.optional(),
+});
+
+export type ListSectionsInput = z.infer<typeof listSectionsSchema>;
+
+/**
+ * Schema for search_best_practices tool input
+ */
+export const searchPracticesSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1, 'Query cannot be empty')
+    .max(200, 'Query too long')
+    .describe('Free-text search query'),
+  topic: topicSchema.optional().describe('Optional topic to restrict the search to'),
+  limit: z
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(20, 'Limit cannot exceed 20')
+    .default(5)
+    .describe('Maximum number of results to return (default 5)'),
+});
+
+export type SearchPracticesInput = z.infer<typeof searchPracticesSchema>;
+
+/**
+ * Schema for get_code_examples tool input
+ */
+export const getCodeExamplesSchema = z.object({
+  topic: topicSchema.describe('Topic to get code examples for'),
+  language: z
     .string()
-    .min(1, 'Topic cannot be empty')
-    .max(50, 'Topic too long')
+    .trim()
+    .min(1, 'Language cannot be empty')
+    .max(20, 'Language too long')
     .toLowerCase()
-    .refine(
-      (val) => VALID_TOPICS.includes(val as any),
-      {
-        message: `Invalid topic. Must be one of: ${VALID_TOPICS.join(', ')}`,
-      }
-    )
+    .optional()
+    .describe('Optional fence language to filter by (e.g. "ts", "tsx", "json")'),
+  section: sectionSchema
+    .optional()
+    .describe('Optional section number (e.g. "7", "2.3") or slug to restrict examples to'),
+});
+
+export type GetCodeExamplesInput = z.infer<typeof getCodeExamplesSchema>;
+
+/**
+ * Schema for review_code tool input
+ */
+export const reviewCodeSchema = z.object({
+  code: z
+    .string()
+    .min(1, 'Code cannot be empty')
+    .max(50000, 'Code too long')
+    .describe('Source code to review'),
+  topic: topicSchema
+    .optional()
+    .describe('Optional topic to review against instead of detecting topics from imports'),
+});
+
+export type ReviewCodeInput = z.infer<typeof reviewCodeSchema>;
+
+/**
+ * Schema for get_server_stats tool input
+ */
+export const getServerStatsSchema = z.object({
+  limit: z
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(50, 'Limit cannot exceed 50')
+    .default(10)
+    .describe('Maximum number of topics and sections to list (default 10)'),
+});
+
+export type GetServerStatsInput = z.infer<typeof getServerStatsSchema>;
+
+/**
+ * Schema for recommend_practices tool input
+ * Exactly one of packageJson and path must be given
+ */
+export const recommendPracticesSchema = z
+  .object({
+    packageJson: z
+      .string()
+      .min(1, 'package.json contents cannot be empty')
+      .max(200000, 'package.json contents too long')
+      .optional()
+      .describe("Contents of the project's package.json"),
+    path: z
+      .string()
+      .trim()
+      .min(1, 'Path cannot be empty')
+      .max(1000, 'Path too long')
+      .optional()
+      .describe(
+        "Path to a package.json, or the directory containing it, inside one of the server's project roots"
+      ),
+  })
+  .refine((input) => (input.packageJson === undefined) !== (input.path === undefined), {
+    error: 'Provide either packageJson or path',
+  });
+
+export type RecommendPracticesInput = z.infer<typeof recommendPracticesSchema>;
+
+/**
+ * Schema for compose_practices tool input
+ */
+export const composePracticesSchema = z.object({
+  topics: z
+    .array(topicSchema)
+    .min(2, 'Provide at least two topics')
+    .max(6, 'Provide at most six topics')
+    .refine((topics) => new Set(topics).size === topics.length, { error: 'Topics must be unique' })
+    .describe('Topics to compose into one guide, in the order they should appear'),
+  focus: z
+    .string()
+    .trim()
+    .min(1, 'Focus cannot be empty')
+    .max(200, 'Focus too long')
+    .optional()
+    .describe('Only include sections matching this query, most relevant first'),
+  max_tokens: z
+    .number()
+    .int()
+    .min(500, 'max_tokens must be at least 500')
+    .max(100000, 'max_tokens cannot exceed 100000')
+    .default(8000)
+    .describe('Approximate token budget for the composed guide (default 8000)'),
+});
+
+export type ComposePracticesInput = z.infer<typeof composePracticesSchema>;
+
+/**
+ * Schema for get_checklist tool input
+ */
+export const getChecklistSchema = z.object({
+  topic: topicSchema.describe('Topic to build the checklist for'),
+  section: sectionSchema
+    .optional()
+    .describe('Optional section number (e.g. "6") or slug; the checklist covers it and its subsections'),
+  version: versionSchema.optional(),
+  format: z
+    .enum(['markdown', 'json'], { error: 'Format must be "markdown" or "json"' })
+    .optional()
     .describe(
-      `Topic to fetch best practices for (${VALID_TOPICS.join(', ')})`
+      'Output format. "markdown" (default) returns task lists grouped by section with the IDs in HTML comments; "json" returns the items as JSON'
     ),
 });
 
-export type GetPracticeInput = z.infer<typeof getPracticeSchema>;
+export type GetChecklistInput = z.infer<typeof getChecklistSchema>;
+
+/**
+ * Schema for related_practices tool input
+ */
+export const relatedPracticesSchema = z.object({
+  topic: topicSchema.describe('Topic of the section to start from'),
+  section: sectionSchema.describe('Section number (e.g. "5") or slug to find related sections for'),
+  limit: z
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(20, 'Limit cannot exceed 20')
+    .default(5)
+    .describe('Maximum number of related sections to return (default 5)'),
+});
+
+export type RelatedPracticesInput = z.infer<typeof relatedPracticesSchema>;
+
+/**
+ * Schema for find_practice tool input
+ */
+export const findPracticeSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1, 'Query cannot be empty')
+    .max(500, 'Query too long')
+    .describe('What you are looking for, in your own words (e.g. "avoid re-renders when reading store")'),
+  topic: topicSchema.optional().describe('Optional topic to restrict the search to'),
+  limit: z
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(20, 'Limit cannot exceed 20')
+    .default(5)
+    .describe('Number of sections to return (default 5)'),
+});
 
+export type FindPracticeInput = z.infer<typeof findPracticeSchema>;
@@ -0,0 +1,150 @@
+/**
+ * Hot reload of practice documents, review rules and overlays
+ * Watches every practice directory and the overlay directory, drops cached data when files change and
+ * tells connected servers which topics changed
+ */
+
+import path from "path";
+import { existsSync, watch, FSWatcher } from "fs";
+import { getPracticeRoots, getTopicNames, reloadTopics, topicNameFromFile } from "./topics";
+import { getSearchIndex, resetSearchIndex } from "./search/searchIndex";
+import { resetPracticeGraph } from "./graph/practiceGraph";
+import { resetSemanticIndex } from "./search/semanticIndex";
+import { clearRules, RULES_DIR } from "./review/rules";
+import { clearDocumentCache } from "./documentStore";
+import { getOverlayDir, OVERLAY_EXTENSIONS } from "./overlays";
+import { logger } from "./utils/logger";
+
+export interface PracticeChange {
+  /** Topics whose document or rules changed, including added and removed ones */
+  topics: string[];
+}
+
+type WatchedDirKind = "practices" | "rules" | "overlays";
+
+type ChangeListener = (change: PracticeChange) => void;
+
+const listeners = new Set<ChangeListener>();
+
+const DEBOUNCE_MS = 100;
+
+/**
+ * Registers a listener for practice changes
+ * @returns A function that removes the listener
+ */
+export function onPracticesChanged(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Drops every cache derived from practice files and notifies listeners
+ * @param topics - Topics known to have changed; topics that appeared or
+ * disappeared are added automatically
+ */
+export function reloadPractices(topics: string[]): PracticeChange {
+  const before = new Set(getTopicNames());
+
+  reloadTopics();
+  clearDocumentCache();
+  resetSearchIndex();
+  resetPracticeGraph();
+  resetSemanticIndex();
+  clearRules();
+
+  const after = new Set(getTopicNames());
+  const changed = new Set(topics);
+  for (const topic of before) if (!after.has(topic)) changed.add(topic);
+  for (const topic of after) if (!before.has(topic)) changed.add(topic);
+
+  const change = { topics: [...changed].sort() };
+  logger.info("Practice files reloaded", change);
+
+  // Rebuild the index in the background so the next search stays fast
+  getSearchIndex().catch((error) => logger.error("Failed to rebuild search index", error));
+
+  for (const listener of listeners) {
+    try {
+      listener(change);
+    } catch (error) {
+      logger.error("Practice change listener failed", error);
+    }
+  }
+
+  return change;
+}
+
+/**
+ * Maps a changed file to the topic it belongs to
+ * Returns undefined if the file name is unknown, and null if it isn't a practice file
+ */
+function topicForFile(fileName: string | null, kind: WatchedDirKind): string | null | undefined {
+  if (!fileName) return undefined;
+  if (kind === "rules") {
+    return fileName.endsWith(".json") ? path.basename(fileName, ".json").toLowerCase() : null;
+  }
+  if (kind === "overlays") {
+    const extension = path.extname(fileName);
+    return OVERLAY_EXTENSIONS.includes(extension) ? path.basename(fileName, extension).toLowerCase() : null;
+  }
+  return topicNameFromFile(fileName);
+}
+
+/**
+ * Starts watching the practice directories, their rules directories and the overlay directory
+ * Bursts of changes are batched into a single reload
+ * @returns A function that stops watching
+ */
+export function watchPractices(): () => void {
+  const watchers: FSWatcher[] = [];
+  const pending = new Set<string>();
+  let reloadAll = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    timer = null;
+    const topics = reloadAll ? getTopicNames() : [...pending];
+    pending.clear();
+    reloadAll = false;
+    reloadPractices(topics);
+  };
+
+  const dirs: { dir: string; kind: WatchedDirKind }[] = getPracticeRoots().flatMap((root) => [
+    { dir: root, kind: "practices" as const },
+    { dir: path.join(root, RULES_DIR), kind: "rules" as const },
+  ]);
+  const overlayDir = getOverlayDir();
+  if (overlayDir) dirs.push({ dir: overlayDir, kind: "overlays" });
+
+  for (const { dir, kind } of dirs) {
+    if (!existsSync(dir)) continue;
+
+    try {
+      const watcher = watch(dir, (_event, fileName) => {
+        const topic = topicForFile(fileName?.toString() ?? null, kind);
+        if (topic === null) return;
+        if (topic === undefined) reloadAll = true;
+        else pending.add(topic);
+
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, DEBOUNCE_MS);
+      });
+      watcher.on("error", (error) => logger.warn("Practice watcher failed", { dir, error: error.message }));
+      watchers.push(watcher);
+    } catch (error) {
+      logger.warn("Could not watch practice directory", {
+        dir,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logger.info("Watching practice files", { dirs: watchers.length });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Tests for checklists generated from practice documents
+ */
+
+import { describe, it, expect } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { extractChecklist, getChecklist } from "../src/tools/getChecklist";
+import { parseDocument } from "../src/utils/markdown";
+import { createServer } from "../src/server";
+import { SectionNotFoundError } from "../src/utils/errors";
+
+const DOCUMENT = [
+  "# Stores",
+  "",
+  "## 1. Setup",
+  "",
+  "One store per domain.",
+  "- [ ] Type the store",
+  "✅ Do: Use selectors",
+  "❌ Mutate state directly",
+  "",
+  "```ts",
+  "// ✅ not an item",
+  "```",
+  "",
+  "## 2. Review Checklist",
+  "",
+  "Before merging:",
+  "- Stores are split by domain",
+  "- Stores are split by domain",
+  "",
+  "### 2.1 Tests",
+  "",
+  "Practice\tBenefit",
+  "Reset stores\tIsolated tests",
+  "",
+  "## 3. Notes",
+  "",
+  "Checklist",
+  "Devtools only in development",
+].join("\n");
+
+describe("extractChecklist", () => {
+  it("should collect ✅ rules, task items and the items of checklist sections", () => {
+    const items = extractChecklist("zustand", parseDocument(DOCUMENT));
+
+    expect(items.map(({ text, section }) => [section.number, text])).toEqual([
+      ["1", "Type the store"],
+      ["1", "Use selectors"],
+      ["2", "Stores are split by domain"],
+      ["2.1", "Reset stores: Isolated tests"],
+      ["3", "Devtools only in development"],
+    ]);
+    expect(items[0]).toEqual({
+      id: expect.stringMatching(/^zustand\.setup\.[0-9a-f]{8}$/),
+      text: "Type the store",
+      section: { number: "1", title: "Setup", slug: "setup" },
+      uri: "practice://zustand/setup",
+    });
+  });
+
+  it("should keep IDs stable when sections are renumbered or reordered", () => {
+    const reordered = DOCUMENT.replace("## 1. Setup", "## 4. Setup").replace(
+      "- [ ] Type the store\n✅ Do: Use selectors",
+      "✅ Do: Use selectors\n- [ ] Type the store"
+    );
+    const ids = (markdown: string) =>
+      extractChecklist("zustand", parseDocument(markdown))
+        .map(({ id }) => id)
+        .sort();
+
+    expect(ids(reordered)).toEqual(ids(DOCUMENT));
+  });
+
+  it("should keep IDs of duplicate headings apart and stable when one is inserted", () => {
+    const section = (title: string, item: string) => [`## ${title}`, "", `- [ ] ${item}`, ""];
+    const extract = (lines: string[]) => extractChecklist("react", parseDocument(["# React", "", ...lines].join("\n")));
+    const hooks = ["## Hooks", "", "### Examples", "", "- [ ] Name hooks use*", ""];
+    const forms = ["## Forms", "", "### Examples", "", "- [ ] Name hooks use*", ""];
+
+    const before = extract([...hooks, ...forms]);
+    expect(before.map(({ section }) => section.slug)).toEqual(["examples", "examples-2"]);
+    expect(new Set(before.map(({ id }) => id)).size).toBe(2);
+    expect(before[0].id).toMatch(/^react\.examples\.[0-9a-f]{8}$/);
+
+    const after = extract([...section("Setup", "Install React"), "### Examples", "", "- [ ] Start small", "", ...hooks, ...forms]);
+    expect(after.slice(-2).map(({ section }) => section.slug)).toEqual(["examples-2", "examples-3"]);
+    expect(after.slice(-2).map(({ id }) => id)).toEqual(before.map(({ id }) => id));
+  });
+
+  it("should give a subsection's items the same IDs as in the whole document", () => {
+    const document = parseDocument("# React\n\n## Forms\n\n### Examples\n\n- [ ] Validate on blur\n");
+    const [examples] = document.sections[0].children;
+
+    expect(extractChecklist("react", document, [examples])).toEqual(extractChecklist("react", document));
+  });
+});
+
+describe("getChecklist", () => {
+  it("should render a section as markdown task lists", async () => {
+    const { text, structuredContent } = await getChecklist({ topic: "zustand", section: "6" });
+
+    expect(text).toMatch(/^# Checklist: Zustand › 6 Performance Checklist\n\n## 6 Performance Checklist\n\n/);
+    expect(text).toContain("- [ ] Pick only needed slices: Fewer re-renders <!-- zustand.performance-checklist.");
+    expect(text).not.toContain("Practice: Benefit");
+    expect(structuredContent).toMatchObject({ format: "markdown", topic: "zustand", section: "performance-checklist" });
+    expect(structuredContent.items).toHaveLength(7);
+  });
+
+  it("should cover the subsections of checklist sections", async () => {
+    const { structuredContent } = await getChecklist({ topic: "nextjs", format: "json" });
+    const titles = new Set(structuredContent.items.map(({ section }) => section.title));
+
+    expect(titles).toEqual(new Set(["Performance Playbook", "Performance", "Accessibility", "Reliability", "Security"]));
+  });
+
+  it("should return JSON with the same items", async () => {
+    const markdown = await getChecklist({ topic: "tanstack-query" });
+    const json = await getChecklist({ topic: "tanstack-query", format: "json" });
+
+    expect(JSON.parse(json.text)).toEqual(json.structuredContent);
+    expect(json.structuredContent.items).toEqual(markdown.structuredContent.items);
+  });
+
+  it("should reject unknown sections", async () => {
+    await expect(getChecklist({ topic: "react", section: "99" })).rejects.toThrow(SectionNotFoundError);
+  });
+
+  it("should return checklists that match the declared output schema", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools.find(({ name }) => name === "get_checklist")?.outputSchema).toBeDefined();
+
+    const result = await client.callTool({
+      name: "get_checklist",
+      arguments: { topic: "ui", format: "json" },
+    });
+    await client.close();
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ topic: "ui", items: expect.any(Array) });
+  });
+});
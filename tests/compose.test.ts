@@ -0,0 +1,117 @@
+/**
+ * Tests for composing one guide from several topics
+ */
+
+import { describe, it, expect } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { composePractices, ComposedSection, isOverlapping, mergeOverlapping } from "../src/tools/composePractices";
+import { composePracticesSchema } from "../src/validation";
+import { createServer } from "../src/server";
+import { estimateTokens } from "../src/utils/tokens";
+import { parseDocument } from "../src/utils/markdown";
+
+function unit(topic: string, title: string, text: string, order: number): ComposedSection {
+  const [section] = parseDocument(`## ${title}`).sections;
+  const terms = (value: string) => new Set(value.toLowerCase().split(/\W+/).filter(Boolean));
+  return { topic, section, text, terms: terms(text), titleTerms: terms(title), order, score: 0, alsoIn: [] };
+}
+
+const BIOME = "biome replaces eslint and prettier with one fast formatter and linter config";
+
+describe("mergeOverlapping", () => {
+  it("should merge overlapping sections of different topics into the most complete one", () => {
+    const short = unit("nextjs", "Biome", BIOME, 0);
+    const long = unit("react", "Use Biome", `${BIOME} enable recommended rules`, 1);
+    const other = unit("react", "Hooks", "custom hooks extract reusable stateful logic from components", 2);
+
+    expect(isOverlapping(short, long)).toBe(true);
+    expect(isOverlapping(long, other)).toBe(false);
+
+    const kept = mergeOverlapping([short, long, other]);
+    expect(kept).toEqual([long, other]);
+    expect(long.alsoIn).toEqual([short]);
+  });
+
+  it("should prefer the section about its own topic", () => {
+    const general = unit("react", "Testing", `${BIOME} and zustand store tests`, 0);
+    const specific = unit("zustand", "Testing Your Zustand Store", BIOME, 1);
+
+    expect(mergeOverlapping([general, specific])).toEqual([specific]);
+  });
+
+  it("should never merge sections of the same topic", () => {
+    const first = unit("react", "Biome", BIOME, 0);
+    const second = unit("react", "Biome again", BIOME, 1);
+    expect(mergeOverlapping([first, second])).toHaveLength(2);
+  });
+});
+
+describe("composePractices", () => {
+  it("should merge duplicated sections and attribute every section", async () => {
+    const guide = await composePractices({ topics: ["nextjs", "react"], max_tokens: 100000 });
+
+    expect(guide).toMatch(/^# Composed Practices: Next\.js \+ React/);
+    expect(guide).toContain("### 3 Biome (formatter + linter + a11y)");
+    expect(guide).toContain("_Also covered in: react › 2.4 Use Biome for Linting & Formatting_");
+    expect(guide).not.toContain("#### 2.4 Use Biome for Linting & Formatting");
+    expect(guide).toContain("_Source: react › 2.3 Adhere to Naming Conventions (practice://react/adhere-to-naming-conventions)_");
+    expect(guide).not.toContain("## Omitted to Fit the Token Budget");
+  });
+
+  it("should fit the token budget and list what was left out", async () => {
+    const guide = await composePractices({ topics: ["nextjs", "tanstack-query", "zustand"], max_tokens: 2000 });
+
+    expect(estimateTokens(guide)).toBeLessThanOrEqual(2000);
+    expect(guide).toContain("## Omitted to Fit the Token Budget");
+    expect(guide).toMatch(/^- zustand \(practice:\/\/zustand\/<section>\): \S+/m);
+    // Topics take turns, so each one is represented
+    for (const heading of ["## Next.js (nextjs)", "## TanStack Query (tanstack-query)", "## Zustand (zustand)"]) {
+      expect(guide).toContain(heading);
+    }
+  });
+
+  it("should only include sections matching the focus", async () => {
+    const guide = await composePractices({ topics: ["zustand", "typescript"], focus: "selectors", max_tokens: 100000 });
+
+    expect(guide).toContain("Focus: **selectors**");
+    expect(guide).toContain("practice://zustand/");
+    expect(guide).not.toContain("Use Strict Mode");
+
+    expect(
+      await composePractices({ topics: ["zustand", "typescript"], focus: "kubernetes", max_tokens: 8000 })
+    ).toContain('No sections of zustand, typescript match "kubernetes".');
+  });
+
+  it("should require several distinct topics", () => {
+    expect(composePracticesSchema.parse({ topics: ["React", "zustand"] })).toEqual({
+      topics: ["react", "zustand"],
+      max_tokens: 8000,
+    });
+    expect(composePracticesSchema.safeParse({ topics: ["react"] }).success).toBe(false);
+    expect(composePracticesSchema.safeParse({ topics: ["react", "react"] }).success).toBe(false);
+    expect(composePracticesSchema.safeParse({ topics: ["react", "vue"] }).success).toBe(false);
+    expect(composePracticesSchema.safeParse({ topics: ["react", "ui"], max_tokens: 100 }).success).toBe(false);
+  });
+
+  it("should be callable over MCP", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(({ name }) => name)).toContain("compose_practices");
+
+    const result = await client.callTool({
+      name: "compose_practices",
+      arguments: { topics: ["react", "ui"], max_tokens: 1000 },
+    });
+    await client.close();
+
+    expect(result.isError).toBeFalsy();
+    expect(result.content).toEqual([
+      { type: "text", text: expect.stringContaining("# Composed Practices: React + UI/UX") },
+    ]);
+  });
+});
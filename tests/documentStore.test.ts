@@ -0,0 +1,126 @@
+/**
+ * Tests for the cached practice document store and its configuration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, writeFileSync, rmSync, utimesSync } from "fs";
+import { configurePracticeDirs } from "../src/topics";
+import {
+  configureDocumentStore,
+  loadDocument,
+  getDocumentCacheStats,
+  clearDocumentCache,
+} from "../src/documentStore";
+import { getPractice } from "../src/tools/getPractice";
+import { loadConfig } from "../src/config";
+import { DEFAULT_MAX_FILE_SIZE } from "../src/types";
+import { FileTooLargeError, NotFoundError, ValidationError } from "../src/utils/errors";
+
+let dir: string;
+let filePath: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "practices-store-"));
+  filePath = path.join(dir, "graphql.md");
+  writeFileSync(filePath, "---\nname: GraphQL\n---\n# GraphQL\n\n1. Schemas\nOne\n");
+  configurePracticeDirs([dir]);
+  configureDocumentStore({ maxFileSize: DEFAULT_MAX_FILE_SIZE });
+});
+
+afterEach(() => {
+  configurePracticeDirs([]);
+  configureDocumentStore({ maxFileSize: DEFAULT_MAX_FILE_SIZE });
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("loadDocument", () => {
+  it("should parse documents without their front matter", async () => {
+    const { content, document } = await loadDocument("graphql");
+    expect(content).not.toContain("name: GraphQL");
+    expect(document.sections[0].title).toBe("Schemas");
+  });
+
+  it("should serve repeated reads from the cache", async () => {
+    const first = await loadDocument("graphql");
+    const before = getDocumentCacheStats();
+    const second = await loadDocument("graphql");
+    const after = getDocumentCacheStats();
+
+    expect(second).toBe(first);
+    expect(after.hits).toBe(before.hits + 1);
+    expect(after.misses).toBe(before.misses);
+    expect(after.entries).toBe(1);
+    expect(after.bytes).toBe(first.size);
+  });
+
+  it("should re-read files whose modification time changed", async () => {
+    await loadDocument("graphql");
+
+    writeFileSync(filePath, "# GraphQL\n\n1. Resolvers\nTwo\n");
+    const future = new Date(Date.now() + 10_000);
+    utimesSync(filePath, future, future);
+
+    const { document } = await loadDocument("graphql");
+    expect(document.sections[0].title).toBe("Resolvers");
+  });
+
+  it("should refuse files above the size limit", async () => {
+    configureDocumentStore({ maxFileSize: 10 });
+
+    const error = await loadDocument("graphql").catch((e) => e);
+    expect(error).toBeInstanceOf(FileTooLargeError);
+    expect(error.code).toBe("FILE_TOO_LARGE");
+    expect(error.maxSize).toBe(10);
+    expect(error.message).not.toContain(dir);
+    await expect(getPractice({ topic: "graphql" })).rejects.toThrow(FileTooLargeError);
+  });
+
+  it("should drop cached documents of deleted files", async () => {
+    await loadDocument("graphql");
+    rmSync(filePath);
+
+    await expect(loadDocument("graphql")).rejects.toThrow(NotFoundError);
+    expect(getDocumentCacheStats().entries).toBe(0);
+  });
+
+  it("should empty the cache on request", async () => {
+    await loadDocument("graphql");
+    clearDocumentCache();
+    expect(getDocumentCacheStats().entries).toBe(0);
+  });
+});
+
+describe("loadConfig", () => {
+  it("should default the file size limit and log level", () => {
+    const config = loadConfig([], {});
+    expect(config.maxFileSize).toBe(DEFAULT_MAX_FILE_SIZE);
+    expect(config.logLevel).toBe("info");
+  });
+
+  it("should read MAX_FILE_SIZE and LOG_LEVEL, preferring flags", () => {
+    const config = loadConfig(["--log-level=DEBUG"], { MAX_FILE_SIZE: "2048", LOG_LEVEL: "warn" });
+    expect(config.maxFileSize).toBe(2048);
+    expect(config.logLevel).toBe("debug");
+    expect(loadConfig(["--max-file-size", "10"], { MAX_FILE_SIZE: "2048" }).maxFileSize).toBe(10);
+  });
+
+  it("should treat empty variables as unset", () => {
+    expect(loadConfig([], { MAX_FILE_SIZE: "", LOG_LEVEL: " " }).logLevel).toBe("info");
+  });
+
+  it("should report every invalid setting", () => {
+    const error = (() => {
+      try {
+        loadConfig([], { MAX_FILE_SIZE: "-1", LOG_LEVEL: "verbose" });
+      } catch (e) {
+        return e as Error;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error?.message).toContain("maxFileSize");
+    expect(error?.message).toContain("logLevel");
+  });
+});
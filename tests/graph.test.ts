@@ -0,0 +1,146 @@
+/**
+ * Tests for the cross-reference graph, the related_practices tool and the practice://graph resource
+ */
+
+import { describe, it, expect } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createPracticeGraph, findRelatedSections, getPracticeGraph, PracticeGraph } from "../src/graph/practiceGraph";
+import { createSearchIndex } from "../src/search/searchIndex";
+import { relatedPractices } from "../src/tools/relatedPractices";
+import { createServer } from "../src/server";
+import { SectionNotFoundError } from "../src/utils/errors";
+
+const ALPHA = `# Alpha
+
+## 1. Caching
+Cache responses with stale timers and background refetching. See practice://beta/caching-queries for details.
+
+## 2. Forms
+Validate forms with schemas before submitting. Beta covers this too.
+`;
+
+const BETA = `# Beta
+
+## 1. Caching Queries
+Stale timers decide when background refetching happens; caching responses avoids waterfalls.
+
+## 2. Form Validation
+Parse schemas on submit and validate forms before sending them.
+
+## 3. Styling
+Tailwind utilities and design tokens.
+`;
+
+function sampleGraph(related: string[] = []): PracticeGraph {
+  const index = createSearchIndex([
+    { topic: "alpha", content: ALPHA },
+    { topic: "beta", content: BETA },
+  ]);
+  return createPracticeGraph(index, [
+    { topic: "alpha", name: "Alpha", related },
+    { topic: "beta", name: "Beta", related: [] },
+  ]);
+}
+
+async function connectClient(): Promise<Client> {
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe("createPracticeGraph", () => {
+  it("should link sections by practice:// links, mentions and shared terms", () => {
+    const graph = sampleGraph();
+
+    expect(graph.nodes.map(({ id }) => id)).toEqual([
+      "alpha/caching",
+      "alpha/forms",
+      "beta/caching-queries",
+      "beta/form-validation",
+      "beta/styling",
+    ]);
+    expect(graph.nodes[0].uri).toBe("practice://alpha/caching");
+
+    const caching = graph.edges.find(({ source }) => source === "alpha/caching");
+    expect(caching).toMatchObject({
+      target: "beta/caching-queries",
+      kinds: ["link", "shared-terms"],
+    });
+    expect(caching?.terms).toEqual(expect.arrayContaining(["stale", "timers"]));
+
+    const forms = graph.edges.find(({ source }) => source === "alpha/forms");
+    expect(forms).toMatchObject({ target: "beta/form-validation" });
+    expect(forms?.kinds).toEqual(expect.arrayContaining(["mention", "shared-terms"]));
+    expect(forms?.kinds).not.toContain("link");
+
+    expect(graph.edges.some(({ source, target }) => [source, target].includes("beta/styling"))).toBe(false);
+  });
+
+  it("should mark edges between related topics and rank links first", () => {
+    const graph = sampleGraph(["beta"]);
+
+    expect(graph.edges.every(({ kinds }) => kinds.includes("related-topic"))).toBe(true);
+    expect(graph.topics[0]).toEqual({ topic: "alpha", name: "Alpha", related: ["beta"] });
+
+    const related = findRelatedSections(graph, "beta/caching-queries");
+    expect(related[0]).toMatchObject({ id: "alpha/caching", kinds: expect.arrayContaining(["link"]) });
+    expect(related[0].score).toBeGreaterThan(1);
+  });
+});
+
+describe("practice graph", () => {
+  it("should connect sections covering the same ground in different topics", async () => {
+    const graph = await getPracticeGraph();
+
+    const biome = findRelatedSections(graph, "react/use-biome-for-linting-formatting").map(({ id }) => id);
+    expect(biome).toContain("nextjs/biome-formatter-linter-a11y");
+    expect(biome).toContain("typescript/use-biome-for-linting-formatting");
+
+    const state = findRelatedSections(graph, "nextjs/state-management-minimal-intentional");
+    expect(state.map(({ topic }) => topic)).toEqual(expect.arrayContaining(["zustand", "tanstack-query"]));
+  });
+});
+
+describe("related_practices", () => {
+  it("should list related sections with their URIs and reasons", async () => {
+    const { text, structuredContent } = await relatedPractices({ topic: "react", section: "2.4", limit: 3 });
+
+    expect(structuredContent.section).toBe("use-biome-for-linting-formatting");
+    expect(structuredContent.related).toHaveLength(3);
+    expect(structuredContent.related[0]).toMatchObject({
+      uri: expect.stringMatching(/^practice:\/\//),
+      kinds: expect.arrayContaining(["shared-terms"]),
+    });
+    expect(text).toMatch(/^# Related to React › 2\.4 Use Biome for Linting & Formatting\n\n1\. \*\*/);
+    expect(text).toContain(structuredContent.related[0].uri);
+  });
+
+  it("should reject unknown sections", async () => {
+    await expect(relatedPractices({ topic: "react", section: "99", limit: 5 })).rejects.toThrow(
+      SectionNotFoundError
+    );
+  });
+});
+
+describe("practice://graph", () => {
+  it("should be listed and served as JSON", async () => {
+    const client = await connectClient();
+
+    const { resources } = await client.listResources();
+    expect(resources.find(({ uri }) => uri === "practice://graph")).toMatchObject({
+      mimeType: "application/json",
+    });
+
+    const { contents } = await client.readResource({ uri: "practice://graph" });
+    await client.close();
+
+    expect(contents[0].mimeType).toBe("application/json");
+    const graph = JSON.parse(contents[0].text as string) as PracticeGraph;
+    expect(graph.nodes.find(({ id }) => id === "nextjs/state-management-minimal-intentional")).toBeDefined();
+    expect(graph.edges.length).toBeGreaterThan(0);
+    expect(graph.topics.map(({ topic }) => topic)).toContain("zustand");
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Tests for the HTTP transport and its configuration
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { startHttpServer, HttpServerHandle, DEFAULT_SESSION_IDLE_MS } from "../src/transports/http";
+import { createServer } from "../src/server";
+import { loadConfig } from "../src/config";
+import { ValidationError } from "../src/utils/errors";
+
+describe("loadConfig transport options", () => {
+  it("should default to stdio on localhost", () => {
+    const config = loadConfig([], {});
+    expect(config.transport).toBe("stdio");
+    expect(config.host).toBe("127.0.0.1");
+    expect(config.port).toBe(3000);
+  });
+
+  it("should read the transport from flags and environment", () => {
+    expect(loadConfig(["--http"], {}).transport).toBe("http");
+    expect(loadConfig(["--transport=http"], {}).transport).toBe("http");
+    expect(loadConfig([], { MCP_TRANSPORT: "HTTP" }).transport).toBe("http");
+    expect(loadConfig(["--transport", "stdio"], { MCP_TRANSPORT: "http" }).transport).toBe("stdio");
+  });
+
+  it("should read host and port, preferring flags", () => {
+    const config = loadConfig(["--port", "8080"], { MCP_HOST: "0.0.0.0", MCP_PORT: "9000" });
+    expect(config.host).toBe("0.0.0.0");
+    expect(config.port).toBe(8080);
+  });
+
+  it("should reject invalid transports and ports", () => {
+    expect(() => loadConfig(["--transport", "ws"], {})).toThrow(ValidationError);
+    expect(() => loadConfig(["--port", "70000"], {})).toThrow(ValidationError);
+    expect(() => loadConfig([], { MCP_PORT: "abc" })).toThrow(ValidationError);
+  });
+});
+
+/**
+ * Requests /health with the given headers, which fetch may not let through unchanged
+ */
+function healthStatus(port: number, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ host: "127.0.0.1", port, path: "/health", headers }, (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      })
+      .on("error", reject);
+  });
+}
+
+describe("HTTP transport", () => {
+  let handle: HttpServerHandle;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    handle = await startHttpServer({ host: "127.0.0.1", port: 0, createServer });
+    baseUrl = `http://127.0.0.1:${handle.port}`;
+  });
+
+  afterAll(async () => {
+    await handle.close();
+  });
+
+  it("should report health", async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: "ok", name: "best-practices-mcp" });
+  });
+
+  it("should serve tools, resources and prompts over streamable HTTP", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain("get_best_practice");
+
+    const result = await client.readResource({ uri: "practice://zustand" });
+    expect(result.contents[0].text).toContain("Zustand");
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.length).toBeGreaterThan(0);
+
+    const section = await client.readResource({ uri: "practice://zustand/2" });
+    expect(section.contents[0].text).toContain("Calculated");
+    expect(section.contents[0].text).not.toContain("Picking State");
+
+    const prompt = await client.getPrompt({
+      name: "plan-nextjs-feature",
+      arguments: { feature: "A settings page" },
+    });
+    expect(prompt.messages[0].content.type).toBe("resource");
+
+    await client.close();
+  });
+
+  it("should serve older clients over SSE", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    const { resources } = await client.listResources();
+    expect(resources.length).toBeGreaterThan(0);
+
+    await client.close();
+  });
+
+  it("should reject requests without a session", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject unknown sessions and paths", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "mcp-session-id": "missing",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(404);
+    expect((await fetch(`${baseUrl}/nope`)).status).toBe(404);
+  });
+
+  it("should only accept loopback hosts and origins when bound to loopback", async () => {
+    expect(await healthStatus(handle.port, { Host: `localhost:${handle.port}` })).toBe(200);
+    expect(await healthStatus(handle.port, { Host: "attacker.example" })).toBe(403);
+    expect(await healthStatus(handle.port, { Origin: `http://localhost:5173` })).toBe(200);
+    expect(await healthStatus(handle.port, { Origin: "http://attacker.example" })).toBe(403);
+  });
+
+  it("should reject malformed JSON", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{",
+    });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("HTTP transport settings", () => {
+  it("should accept the configured hosts and origins", async () => {
+    const handle = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      createServer,
+      allowedHosts: ["mcp.internal"],
+      allowedOrigins: ["https://app.internal"],
+    });
+    try {
+      expect(await healthStatus(handle.port, { Host: "mcp.internal:443" })).toBe(200);
+      expect(await healthStatus(handle.port, { Host: `127.0.0.1:${handle.port}` })).toBe(403);
+      expect(await healthStatus(handle.port, { Host: "mcp.internal", Origin: "https://app.internal" })).toBe(200);
+      expect(await healthStatus(handle.port, { Host: "mcp.internal", Origin: "https://mcp.internal" })).toBe(403);
+    } finally {
+      await handle.close();
+    }
+  });
+
+  it("should close sessions after the idle timeout", async () => {
+    const handle = await startHttpServer({ host: "127.0.0.1", port: 0, createServer, sessionIdleMs: 50 });
+    const baseUrl = `http://127.0.0.1:${handle.port}`;
+    try {
+      const client = new Client({ name: "test", version: "1.0.0" });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+      expect((await (await fetch(`${baseUrl}/health`)).json()).sessions).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect((await (await fetch(`${baseUrl}/health`)).json()).sessions).toBe(0);
+      await expect(client.listTools()).rejects.toThrow();
+    } finally {
+      await handle.close();
+    }
+  });
+
+  it("should read host checks and the idle timeout from flags and environment", () => {
+    const config = loadConfig(["--allowed-host", "c", "--session-idle-timeout", "60"], {
+      MCP_ALLOWED_HOSTS: "a, b",
+      MCP_ALLOWED_ORIGINS: "https://app.internal",
+    });
+    expect(config).toMatchObject({
+      allowedHosts: ["a", "b", "c"],
+      allowedOrigins: ["https://app.internal"],
+      sessionIdleTimeout: 60,
+    });
+    expect(loadConfig([], {}).sessionIdleTimeout * 1000).toBe(DEFAULT_SESSION_IDLE_MS);
+    expect(() => loadConfig(["--session-idle-timeout", "0"], {})).toThrow(ValidationError);
+  });
+});
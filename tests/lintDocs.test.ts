@@ -0,0 +1,172 @@
+/**
+ * Tests for the practice document linter
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { formatLintIssue, lintDocument, lintPractices } from "../src/lint/practiceLinter";
+import { configurePracticeDirs, getTopics } from "../src/topics";
+import { parseDocument } from "../src/utils/markdown";
+
+const FRONT_MATTER = [
+  "---",
+  "name: Forms",
+  "description: Best practices for forms",
+  'version: "1.0"',
+  "lastReviewed: 2026-10-19",
+  "related: [react]",
+  "---",
+];
+
+function lint(lines: string[], frontMatter: string[] = FRONT_MATTER) {
+  const documents = new Map([["react", parseDocument("# React\n\n## 1. Components\n")]]);
+  return lintDocument([...frontMatter, ...lines].join("\n"), { file: "forms.md", documents });
+}
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "practices-lint-"));
+  writeFileSync(path.join(dir, "forms.md"), [...FRONT_MATTER, "# Forms", "", "## 1. Inputs", "", "```", "x", "```"].join("\n"));
+  writeFileSync(path.join(dir, "forms@v1.md"), "# Forms v1\n");
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  configurePracticeDirs([]);
+});
+
+describe("lintDocument", () => {
+  it("should accept a well-formed document", () => {
+    expect(
+      lint([
+        "# Forms",
+        "",
+        "## 1. Inputs",
+        "",
+        "See section 2 and [validation](#validation), or practice://react/1.",
+        "",
+        "```tsx",
+        "<input />",
+        "```",
+        "",
+        "### 1.1 Labels",
+        "",
+        "## 2. Validation",
+      ])
+    ).toEqual([]);
+  });
+
+  it("should report missing and invalid front matter on the offending line", () => {
+    const issues = lint(["# Forms"], ["---", "name: Forms", "lastReviewed: yesterday", "---"]);
+
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ line: 1, rule: "front-matter", message: 'Missing front matter field "description"' }),
+        expect.objectContaining({ line: 1, rule: "front-matter", message: 'Missing front matter field "version"' }),
+        expect.objectContaining({ line: 3, rule: "front-matter", severity: "error" }),
+      ])
+    );
+    expect(lintDocument("# Forms\n", { file: "forms.md" })[0].message).toContain("Missing front matter");
+  });
+
+  it("should report unbalanced fences and fences without a language", () => {
+    const issues = lint(["# Forms", "", "```", "code", "```", "", "```ts", "const a = 1;", "```ts", "", "~~~sh", "pnpm test"]);
+
+    expect(issues.map(({ line, rule }) => ({ line, rule }))).toEqual([
+      { line: 10, rule: "fence-language" },
+      { line: 16, rule: "code-fence" },
+      { line: 18, rule: "code-fence" },
+    ]);
+    expect(issues[2].message).toBe("Code fence is never closed with ~~~");
+  });
+
+  it("should report inconsistent heading hierarchy", () => {
+    const issues = lint([
+      "# Forms",
+      "## 1. Inputs",
+      "#### Deep",
+      "## 2.1 Orphan",
+      "### 3.1 Nested",
+      "## 3. Misplaced",
+      "## 3. Again",
+      "## 5. Skipped",
+    ]);
+
+    expect(issues.map(({ line, message }) => `${line} ${message}`)).toEqual([
+      '10 Heading "Deep" jumps from h2 to h4',
+      "11 Section 2.1 has no parent section 2",
+      "11 Section 2.1 is an h2 but its number puts it at h3",
+      "12 Section 3.1 has no parent section 3",
+      "13 Section 3 should be numbered 2",
+      "14 Section number 3 is already used on line 13",
+      "15 Section 5 should be numbered 4",
+    ]);
+  });
+
+  it("should report sections whose slugs collide", () => {
+    const issues = lint(["# Forms", "", "## 1. Validation", "", "## 2. Validation!"]);
+    expect(issues).toEqual([
+      {
+        file: "forms.md",
+        line: 12,
+        rule: "duplicate-slug",
+        severity: "error",
+        message: 'Section slug "validation" is already used on line 10',
+      },
+    ]);
+  });
+
+  it("should report broken cross-references outside code fences", () => {
+    const issues = lint(
+      [
+        "# Forms",
+        "",
+        "## 1. Inputs",
+        "",
+        "See sections 1, 2 and 3.",
+        "Read [labels](#labels) and practice://vue or practice://react/9 or practice://react/examples/1.",
+        "",
+        "```md",
+        "section 7",
+        "```",
+      ],
+      FRONT_MATTER.map((line) => (line.startsWith("related") ? "related: [react, angular]" : line))
+    );
+
+    expect(issues.map(({ line, message }) => `${line} ${message}`)).toEqual([
+      '6 Related topic "angular" does not exist',
+      "12 Reference to section 2, which does not exist",
+      "12 Reference to section 3, which does not exist",
+      "13 Link to #labels, which matches no section slug",
+      "13 Link to practice://vue, which is not a known topic",
+      "13 Link to practice://react/9, which matches no section",
+      "13 Link to practice://react/examples/1, which is not a code example",
+    ]);
+  });
+});
+
+describe("lintPractices", () => {
+  it("should find no issues in the built-in documents", () => {
+    const { files, issues } = lintPractices();
+
+    expect(issues).toEqual([]);
+    expect(files).toBe(getTopics().reduce((count, topic) => count + topic.versions.length, 0));
+  });
+
+  it("should lint every version in the practice directories", () => {
+    configurePracticeDirs([dir]);
+    const issues = lintPractices().issues.filter(({ file }) => file.startsWith(dir));
+
+    expect(issues.map(({ file, rule }) => `${path.basename(file)} ${rule}`)).toEqual([
+      "forms.md fence-language",
+      "forms@v1.md front-matter",
+    ]);
+    expect(formatLintIssue(issues[0], dir)).toBe("forms.md:12  error  Code fence has no language tag  (fence-language)");
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for the structured logger and its sinks
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, readFileSync, existsSync, rmSync } from "fs";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server";
+import {
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  logger,
+  setLogLevel,
+  addLogSink,
+  createFileSink,
+  serializeError,
+  LogEntry,
+  SerializedError,
+} from "../src/utils/logger";
+import { FileReadError, NotFoundError } from "../src/utils/errors";
+import { createMcpLogger } from "../src/utils/mcpLogSink";
+import { createServer } from "../src/server";
+
+const cleanups: (() => void)[] = [];
+
+/**
+ * Captures entries written at or above the configured level
+ */
+function capture(): LogEntry[] {
+  const entries: LogEntry[] = [];
+  cleanups.push(addLogSink({ write: (entry) => entries.push(entry) }));
+  return entries;
+}
+
+afterEach(() => {
+  cleanups.splice(0).forEach((cleanup) => cleanup());
+  setLogLevel("info");
+});
+
+describe("logger levels", () => {
+  it("should drop entries below the configured level", () => {
+    const entries = capture();
+    setLogLevel("warn");
+
+    logger.debug("debug");
+    logger.info("info");
+    logger.warn("warn");
+    logger.error("error");
+
+    expect(entries.map((entry) => entry.level)).toEqual(["warn", "error"]);
+  });
+
+  it("should let sinks choose their own level", () => {
+    const entries: LogEntry[] = [];
+    cleanups.push(addLogSink({ level: "debug", write: (entry) => entries.push(entry) }));
+
+    logger.debug("debug");
+    expect(entries).toHaveLength(1);
+  });
+});
+
+describe("child loggers", () => {
+  it("should add their context to every entry", () => {
+    const entries = capture();
+    const child = logger.child({ requestId: 7 }).child({ sessionId: "abc" });
+
+    child.info("hello", { topic: "react" });
+
+    expect(entries[0]).toMatchObject({
+      message: "hello",
+      context: { requestId: 7, sessionId: "abc" },
+      data: { topic: "react" },
+    });
+  });
+});
+
+describe("error serialization", () => {
+  it("should keep the stack, MCPError code and cause", () => {
+    const error = new Error("outer", { cause: new NotFoundError("Topic") });
+    const serialized = serializeError(error) as SerializedError;
+
+    expect(serialized.message).toBe("outer");
+    expect(serialized.stack).toContain("logger.test");
+    expect(serialized.cause).toMatchObject({ code: "NOT_FOUND", message: "Topic not found" });
+  });
+
+  it("should stringify non-errors", () => {
+    expect(serializeError("boom")).toBe("boom");
+  });
+
+  it("should log structured data passed instead of an error", () => {
+    const entries = capture();
+
+    logger.error("Path traversal attempt detected", { topic: "react" });
+    logger.error("Failed", new NotFoundError("Topic"), { topic: "react" });
+
+    expect(entries[0]).toMatchObject({ data: { topic: "react" } });
+    expect(entries[0].error).toBeUndefined();
+    expect(entries[1]).toMatchObject({ data: { topic: "react" }, error: { code: "NOT_FOUND" } });
+  });
+});
+
+describe("createFileSink", () => {
+  it("should append JSON lines and rotate by size", () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), "logs-"));
+    const file = path.join(dir, "server.log");
+    cleanups.push(() => rmSync(dir, { recursive: true, force: true }));
+    cleanups.push(addLogSink(createFileSink(file, { maxBytes: 300, maxFiles: 2 })));
+
+    for (let i = 0; i < 10; i++) {
+      logger.info(`message ${i}`);
+    }
+
+    const lines = readFileSync(file, "utf-8").trim().split("\n");
+    expect(JSON.parse(lines.at(-1)!).message).toBe("message 9");
+    expect(existsSync(`${file}.1`)).toBe(true);
+    expect(existsSync(`${file}.2`)).toBe(true);
+    expect(existsSync(`${file}.3`)).toBe(false);
+  });
+});
+
+describe("MCP logging", () => {
+  async function connect() {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)]);
+
+    const received: LoggingMessageNotification["params"][] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      received.push(notification.params);
+    });
+    return { client, received };
+  }
+
+  it("should forward entries of the client's own requests once it sets a level", async () => {
+    const { client, received } = await connect();
+
+    await client.callTool({ name: "get_best_practice", arguments: {} });
+    await client.setLoggingLevel("warning");
+    await client.callTool({ name: "get_best_practice", arguments: { topic: "react", section: "99" } });
+    await client.callTool({ name: "get_best_practice", arguments: {} });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      level: "warning",
+      data: { message: "Validation error", context: { requestId: expect.anything() } },
+    });
+
+    await client.close();
+  });
+
+  it("should never forward entries of other sessions or the process", async () => {
+    const first = await connect();
+    const second = await connect();
+    await first.client.setLoggingLevel("debug");
+
+    logger.warn("HTTP session started", { sessionId: "secret" });
+    await second.client.callTool({ name: "search_best_practices", arguments: { query: "private query" } });
+    await second.client.callTool({ name: "get_best_practice", arguments: {} });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(first.received).toEqual([]);
+    expect(second.received).toEqual([]);
+
+    await Promise.all([first.client.close(), second.client.close()]);
+  });
+
+  it("should send only the message and request context", async () => {
+    const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { logging: {} } });
+    const log = createMcpLogger(server).child({ requestId: 7, filePath: "/srv/practices/react.md" });
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const received: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      received.push(notification.params.data);
+    });
+    await client.setLoggingLevel("debug");
+
+    log.error("File read error", new FileReadError("EACCES: permission denied, open '/srv/secret'"), {
+      filePath: "/srv/secret",
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await client.close();
+
+    expect(received).toEqual([
+      { message: "File read error", timestamp: expect.any(String), context: { requestId: 7 } },
+    ]);
+    expect(JSON.stringify(received)).not.toContain("/srv");
+  });
+});
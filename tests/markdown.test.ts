@@ -0,0 +1,153 @@
+/**
+ * Tests for the markdown section parser
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseDocument,
+  flattenSections,
+  findSection,
+  getSectionText,
+  slugify,
+  extractCodeBlocks,
+} from "../src/utils/markdown";
+
+describe("slugify", () => {
+  it("should produce URL-friendly slugs", () => {
+    expect(slugify("Query Keys & Invalidation")).toBe("query-keys-invalidation");
+    expect(slugify("Don’t: Pick the whole state")).toBe("dont-pick-the-whole-state");
+    expect(slugify("Starter .env.example")).toBe("starter-env-example");
+  });
+});
+
+describe("parseDocument", () => {
+  it("should parse ATX headings with numbers", () => {
+    const doc = parseDocument(
+      ["# Guide (2025)", "", "## 4) Rendering", "text", "##18) Starter", "### Performance", "x"].join(
+        "\n"
+      )
+    );
+
+    expect(doc.title).toBe("Guide (2025)");
+    expect(doc.sections.map((s) => s.number)).toEqual(["4", "18"]);
+    expect(doc.sections[1].children[0].title).toBe("Performance");
+    expect(doc.sections[1].children[0].level).toBe(2);
+  });
+
+  it("should parse bare numbered and emoji-prefixed headings", () => {
+    const doc = parseDocument(
+      [
+        "🚀 2. Core Best Practices",
+        "2.3 Adhere to Naming",
+        "Components → PascalCase",
+        "🔒 3. Private State",
+        "5️⃣ UI & UX",
+        "🔟 Final Notes",
+      ].join("\n")
+    );
+
+    const flat = flattenSections(doc.sections);
+    expect(flat.map((s) => [s.number, s.title])).toEqual([
+      ["2", "Core Best Practices"],
+      ["2.3", "Adhere to Naming"],
+      ["3", "Private State"],
+      ["5", "UI & UX"],
+      ["10", "Final Notes"],
+    ]);
+    expect(doc.sections[0].children).toHaveLength(1);
+  });
+
+  it("should not treat do/don't markers or sentences as headings", () => {
+    const doc = parseDocument(
+      ["1. Intro", "✅ Keeps renders minimal", "❌ Fetching in useEffect", "💡 Prefer interfaces."].join(
+        "\n"
+      )
+    );
+    expect(flattenSections(doc.sections)).toHaveLength(1);
+  });
+
+  it("should ignore headings inside code fences", () => {
+    const doc = parseDocument(["1. Env", "```ini", "# Server-only", "```"].join("\n"));
+    expect(flattenSections(doc.sections)).toHaveLength(1);
+  });
+
+  it("should nest emoji headings under the preceding numbered section", () => {
+    const doc = parseDocument(
+      ["5️⃣ Practices", "🎯 Goals", "6️⃣ Guidelines", "🏁 Summary"].join("\n")
+    );
+    expect(doc.sections.map((s) => s.title)).toEqual(["Practices", "Guidelines", "Summary"]);
+    expect(doc.sections[0].children[0].title).toBe("Goals");
+  });
+
+  it("should make duplicate slugs unique", () => {
+    const doc = parseDocument(["## Summary", "## Summary"].join("\n"));
+    expect(doc.sections.map((s) => s.slug)).toEqual(["summary", "summary-2"]);
+  });
+});
+
+describe("findSection", () => {
+  const doc = parseDocument(
+    ["1. Intro", "hello", "7. Query Keys & Invalidation", "keys", "7.1 Nested", "nested"].join("\n")
+  );
+
+  it("should find sections by number", () => {
+    expect(findSection(doc, "7")?.title).toBe("Query Keys & Invalidation");
+    expect(findSection(doc, "7.1")?.title).toBe("Nested");
+  });
+
+  it("should find sections by slug or title", () => {
+    expect(findSection(doc, "query-keys-invalidation")?.number).toBe("7");
+    expect(findSection(doc, "Query Keys & Invalidation")?.number).toBe("7");
+  });
+
+  it("should return undefined for unknown sections", () => {
+    expect(findSection(doc, "99")).toBeUndefined();
+    expect(findSection(doc, "missing")).toBeUndefined();
+  });
+
+  it("should include subsections in section text", () => {
+    const section = findSection(doc, "7");
+    expect(section).toBeDefined();
+    const text = getSectionText(doc, section!);
+    expect(text).toContain("keys");
+    expect(text).toContain("nested");
+    expect(text).not.toContain("hello");
+  });
+});
+
+describe("extractCodeBlocks", () => {
+  const doc = parseDocument(
+    [
+      "1. Setup",
+      "Create a client:",
+      "```TS",
+      "const client = new Client();",
+      "```",
+      "```",
+      "plain",
+      "```",
+      "1.1 Nested",
+      "```bash",
+      "pnpm i",
+      "```",
+    ].join("\n")
+  );
+  const blocks = extractCodeBlocks(doc);
+
+  it("should extract every fenced block in order", () => {
+    expect(blocks.map((b) => b.index)).toEqual([1, 2, 3]);
+    expect(blocks[0].code).toBe("const client = new Client();");
+  });
+
+  it("should lowercase language tags and allow missing ones", () => {
+    expect(blocks.map((b) => b.language)).toEqual(["ts", null, "bash"]);
+  });
+
+  it("should attach the innermost section and preceding sentence", () => {
+    expect(blocks[0].section?.title).toBe("Setup");
+    expect(blocks[0].context).toBe("Create a client:");
+    expect(blocks[1].context).toBeNull();
+    expect(blocks[2].section?.title).toBe("Nested");
+    expect(blocks[2].context).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for front matter parsing and practice metadata
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseFrontMatter, stripFrontMatter } from "../src/utils/frontMatter";
+import { resolveMetadata } from "../src/metadata";
+import { getTopic } from "../src/topics";
+
+describe("parseFrontMatter", () => {
+  it("should split front matter from the body", () => {
+    const result = parseFrontMatter(
+      ["---", "name: GraphQL", "tags: [api, schema]", "---", "# Body", "text"].join("\n")
+    );
+    expect(result.data).toEqual({ name: "GraphQL", tags: ["api", "schema"] });
+    expect(result.body).toBe("# Body\ntext");
+    expect(result.bodyStartLine).toBe(5);
+  });
+
+  it("should return the whole document when there is no front matter", () => {
+    const result = parseFrontMatter("# Title\n---\nnot front matter");
+    expect(result.data).toEqual({});
+    expect(result.body).toBe("# Title\n---\nnot front matter");
+    expect(result.bodyStartLine).toBe(1);
+  });
+
+  it("should reject front matter that is not a mapping", () => {
+    expect(() => parseFrontMatter("---\n- a\n- b\n---\nbody")).toThrow(/mapping/);
+  });
+
+  it("should strip front matter without parsing it", () => {
+    expect(stripFrontMatter("---\nname: [unclosed\n---\nbody")).toBe("body");
+  });
+});
+
+describe("resolveMetadata", () => {
+  it("should use front matter values", () => {
+    const metadata = resolveMetadata("graphql", {
+      name: "GraphQL",
+      description: "Best practices for GraphQL APIs",
+      tags: ["api"],
+      version: 2,
+      lastReviewed: "2025-01-31",
+      related: ["React", "graphql"],
+    });
+
+    expect(metadata).toEqual({
+      name: "GraphQL",
+      description: "Best practices for GraphQL APIs",
+      tags: ["api"],
+      version: "2",
+      lastReviewed: "2025-01-31",
+      related: ["react"],
+    });
+  });
+
+  it("should derive defaults from the topic name", () => {
+    expect(resolveMetadata("graphql-api", {})).toMatchObject({
+      name: "Graphql Api",
+      description: "Best practices for Graphql Api",
+      tags: [],
+      related: [],
+    });
+  });
+
+  it("should fall back to defaults for invalid front matter", () => {
+    const metadata = resolveMetadata("graphql", { lastReviewed: "last week" });
+    expect(metadata.name).toBe("Graphql");
+    expect(metadata.lastReviewed).toBeUndefined();
+  });
+});
+
+describe("built-in practice metadata", () => {
+  it("should read display names from the documents", () => {
+    expect(getTopic("nextjs")?.metadata.name).toBe("Next.js");
+    expect(getTopic("tanstack-query")?.metadata.name).toBe("TanStack Query");
+  });
+
+  it("should declare tags, review dates and related topics", () => {
+    const metadata = getTopic("zustand")?.metadata;
+    expect(metadata?.tags).toContain("zustand");
+    expect(metadata?.lastReviewed).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(metadata?.related).toContain("react");
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for request metrics, their persistence and how they are exposed
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from "fs";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  recordRequest,
+  getMetrics,
+  resetMetrics,
+  errorClass,
+  formatPrometheus,
+  saveMetrics,
+  loadMetrics,
+} from "../src/metrics";
+import { createServer } from "../src/server";
+import { startHttpServer } from "../src/transports/http";
+import { getServerStats } from "../src/tools/getServerStats";
+import { loadConfig } from "../src/config";
+import { NotFoundError } from "../src/utils/errors";
+
+beforeEach(() => {
+  resetMetrics();
+});
+
+describe("recordRequest", () => {
+  it("should count requests, latencies and errors per operation", () => {
+    recordRequest({ operation: "tool:get_best_practice", durationMs: 3 });
+    recordRequest({ operation: "tool:get_best_practice", durationMs: 40, error: "NotFoundError" });
+
+    const stats = getMetrics().operations["tool:get_best_practice"];
+    expect(stats.count).toBe(2);
+    expect(stats.totalMs).toBe(43);
+    expect(stats.maxMs).toBe(40);
+    expect(stats.errors).toEqual({ NotFoundError: 1 });
+    expect(stats.buckets[0]).toBe(1);
+    expect(stats.buckets[3]).toBe(1);
+  });
+
+  it("should count sections only for successful requests", () => {
+    recordRequest({ operation: "resource:section", topic: "react", section: "hooks", durationMs: 1 });
+    recordRequest({
+      operation: "resource:section",
+      topic: "react",
+      section: "nope",
+      durationMs: 1,
+      error: "SectionNotFoundError",
+    });
+
+    expect(getMetrics().topics.react).toEqual({
+      count: 2,
+      sections: { hooks: 1 },
+      errors: { SectionNotFoundError: 1 },
+    });
+  });
+});
+
+describe("errorClass", () => {
+  it("should name error classes", () => {
+    expect(errorClass(new NotFoundError("Topic: x"))).toBe("NotFoundError");
+    expect(errorClass(z.string().safeParse(1).error)).toBe("ZodError");
+    expect(errorClass("oops")).toBe("UnknownError");
+  });
+});
+
+describe("formatPrometheus", () => {
+  it("should render counters and a cumulative latency histogram", () => {
+    recordRequest({ operation: "tool:review_code", durationMs: 7 });
+    recordRequest({ operation: "tool:review_code", durationMs: 3000, error: "FileReadError" });
+    recordRequest({ operation: "resource:section", topic: "react", section: 'say "hi"', durationMs: 1 });
+
+    const output = formatPrometheus();
+    expect(output).toContain("# TYPE mcp_requests_total counter");
+    expect(output).toContain('mcp_requests_total{operation="tool:review_code"} 2');
+    expect(output).toContain(
+      'mcp_request_errors_total{operation="tool:review_code",error="FileReadError"} 1'
+    );
+    expect(output).toContain('mcp_request_duration_seconds_bucket{operation="tool:review_code",le="0.005"} 0');
+    expect(output).toContain('mcp_request_duration_seconds_bucket{operation="tool:review_code",le="0.01"} 1');
+    expect(output).toContain('mcp_request_duration_seconds_bucket{operation="tool:review_code",le="+Inf"} 2');
+    expect(output).toContain('mcp_section_requests_total{topic="react",section="say \\"hi\\""} 1');
+  });
+});
+
+describe("metrics persistence", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "practices-metrics-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should restore saved metrics", async () => {
+    const file = path.join(dir, "nested", "metrics.json");
+    recordRequest({ operation: "tool:get_best_practice", topic: "zustand", durationMs: 2 });
+    const saved = getMetrics();
+    await saveMetrics(file);
+    expect(JSON.parse(readFileSync(file, "utf-8"))).toEqual(saved);
+
+    resetMetrics();
+    await loadMetrics(file);
+    expect(getMetrics()).toEqual(saved);
+  });
+
+  it("should ignore missing and invalid files", async () => {
+    recordRequest({ operation: "tool:get_best_practice", durationMs: 2 });
+
+    await loadMetrics(path.join(dir, "missing.json"));
+    const invalid = path.join(dir, "invalid.json");
+    writeFileSync(invalid, JSON.stringify({ operations: "nope" }));
+    await loadMetrics(invalid);
+    writeFileSync(invalid, "{");
+    await loadMetrics(invalid);
+
+    expect(getMetrics().operations["tool:get_best_practice"].count).toBe(1);
+  });
+});
+
+describe("server instrumentation", () => {
+  it("should record tool calls and resource reads", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await client.readResource({ uri: "practice://zustand/2" });
+    await client.readResource({ uri: "practice://zustand/Calculated--Derived-State" });
+    await client.callTool({
+      name: "get_best_practice",
+      arguments: { topic: "zustand", section: "Calculated / Derived State!!" },
+    });
+    await expect(client.readResource({ uri: "practice://zustand/no-such-section" })).rejects.toThrow();
+    await client.callTool({ name: "get_best_practice", arguments: { topic: "nope" } });
+    await client.callTool({ name: "no_such_tool", arguments: {} });
+    await client.close();
+
+    const metrics = getMetrics();
+    expect(metrics.operations["resource:section"].count).toBe(3);
+    expect(metrics.operations["resource:section"].errors).toEqual({ SectionNotFoundError: 1 });
+    expect(metrics.operations["tool:get_best_practice"].errors).toEqual({ ZodError: 1 });
+    expect(metrics.operations["tool:unknown"].count).toBe(1);
+    // Every spelling of a section is recorded under its slug
+    expect(metrics.topics.zustand.sections).toEqual({ "calculated-derived-state": 3 });
+    expect(metrics.topics.nope).toBeUndefined();
+  });
+
+  it("should report stats through get_server_stats", async () => {
+    recordRequest({ operation: "resource:section", topic: "react", section: "hooks", durationMs: 12 });
+
+    const report = await getServerStats({ limit: 10 });
+    expect(report).toContain("| resource:section | 1 | 12.0 | 12.0 | — |");
+    expect(report).toContain("1. react › hooks (1)");
+  });
+
+  it("should say when nothing was recorded", async () => {
+    expect(await getServerStats({ limit: 10 })).toContain("No requests recorded yet.");
+  });
+});
+
+describe("metrics endpoint", () => {
+  it("should only serve /metrics when enabled", async () => {
+    const enabled = await startHttpServer({ host: "127.0.0.1", port: 0, createServer, metrics: true });
+    const disabled = await startHttpServer({ host: "127.0.0.1", port: 0, createServer });
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${enabled.port}/metrics`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("text/plain");
+      expect(await response.text()).toContain("# TYPE mcp_request_duration_seconds histogram");
+
+      expect((await fetch(`http://127.0.0.1:${disabled.port}/metrics`)).status).toBe(404);
+    } finally {
+      await enabled.close();
+      await disabled.close();
+    }
+  });
+
+  it("should read metrics options from flags and environment", () => {
+    expect(loadConfig([], {})).toMatchObject({ metrics: false, metricsFile: undefined });
+    expect(loadConfig(["--metrics", "--metrics-file", "stats.json"], {})).toMatchObject({
+      metrics: true,
+      metricsFile: "stats.json",
+    });
+    expect(loadConfig([], { MCP_METRICS: "true", METRICS_FILE: "m.json" })).toMatchObject({
+      metrics: true,
+      metricsFile: "m.json",
+    });
+  });
+});
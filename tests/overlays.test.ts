@@ -0,0 +1,157 @@
+/**
+ * Tests for team overlays on top of practice documents
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { configureOverlayDir, applyOverlay } from "../src/overlays";
+import { loadDocument } from "../src/documentStore";
+import { getPracticeOutput } from "../src/tools/getPractice";
+import { loadConfig } from "../src/config";
+
+const REACT_OVERLAY = `
+topic: react
+changes:
+  - action: replace
+    section: "2.1"
+    content: Use the folder layout of our app template.
+  - action: suppress
+    section: "2.8"
+  - action: note
+    section: adhere-to-naming-conventions
+    content: |
+      Hooks live in src/hooks.
+      Prefix them with use.
+  - action: add
+    after: "2.14"
+    number: "2.15"
+    title: Use Our Design Tokens
+    content: Import colors from @acme/tokens.
+`;
+
+let dir: string;
+
+function writeOverlay(topic: string, content: string, extension = ".yaml"): void {
+  writeFileSync(path.join(dir, `${topic}${extension}`), content);
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "practice-overlays-"));
+  configureOverlayDir(dir);
+});
+
+afterEach(() => {
+  configureOverlayDir();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("overlays", () => {
+  it("should merge replaced, suppressed, annotated and added sections", async () => {
+    writeOverlay("react", REACT_OVERLAY);
+
+    const { text, structuredContent } = await getPracticeOutput({ topic: "react" });
+
+    expect(text).toContain("> **Team overlay:** replaced 2.1; suppressed 2.8; annotated 2.3; added 2.15");
+    expect(text).toMatch(
+      /2\.1 Maintain Clear Folder Structure\n\n> \*\*Team override:\*\*.*\n\nUse the folder layout of our app template\.\n\n2\.2 /
+    );
+    expect(text).not.toContain("Structure code by feature");
+    expect(text).not.toContain("2.8 Implement Lazy Loading");
+    expect(text).toMatch(
+      /> \*\*Team note:\*\* Hooks live in src\/hooks\.\n> Prefix them with use\.\n\n2\.4 Use Biome/
+    );
+    expect(text).toMatch(/next build && next start\n```\n\n2\.15 Use Our Design Tokens\n\n> \*\*Team addition:\*\*/);
+    expect(text.indexOf("2.15 Use Our Design Tokens")).toBeLessThan(text.indexOf("3. Example Folder Structure"));
+
+    expect(structuredContent.overrides).toEqual([
+      {
+        section: "maintain-clear-folder-structure",
+        number: "2.1",
+        title: "Maintain Clear Folder Structure",
+        action: "replaced",
+      },
+      {
+        section: "implement-lazy-loading-code-splitting",
+        number: "2.8",
+        title: "Implement Lazy Loading & Code Splitting",
+        action: "suppressed",
+      },
+      {
+        section: "adhere-to-naming-conventions",
+        number: "2.3",
+        title: "Adhere to Naming Conventions",
+        action: "annotated",
+      },
+      { section: "use-our-design-tokens", number: "2.15", title: "Use Our Design Tokens", action: "added" },
+    ]);
+  });
+
+  it("should serve added sections and list only the overrides of the requested section", async () => {
+    writeOverlay("react", REACT_OVERLAY, ".yml");
+
+    const added = await getPracticeOutput({ topic: "react", section: "2.15" });
+    expect(added.text).toContain("Import colors from @acme/tokens.");
+    expect(added.structuredContent.overrides).toEqual([expect.objectContaining({ action: "added" })]);
+
+    const core = await getPracticeOutput({ topic: "react", section: "2", format: "json" });
+    expect(core.structuredContent.overrides?.map(({ number }) => number)).toEqual(["2.1", "2.8", "2.3", "2.15"]);
+
+    const untouched = await getPracticeOutput({ topic: "react", section: "2.2" });
+    expect(untouched.structuredContent).not.toHaveProperty("overrides");
+  });
+
+  it("should skip changes to unknown or removed sections and apply the rest", () => {
+    const content = "# Guide\n\n## 1. Setup\nInstall it.\n\n### 1.1 Node\nUse Node 20.\n\n## 2. Usage\nRun it.\n";
+
+    const merged = applyOverlay(
+      content,
+      [
+        { action: "suppress", section: "1" },
+        { action: "note", section: "1.1", content: "Lost" },
+        { action: "replace", section: "9", content: "Missing" },
+        { action: "add", after: "2", number: "3", title: "Support", content: "Ask in #help." },
+      ],
+      "guide"
+    );
+
+    expect(merged.content).toBe(
+      "# Guide\n\n## 2. Usage\nRun it.\n\n## 3. Support\n\n> **Team addition:** this section is not part of the built-in guidance.\n\nAsk in #help.\n"
+    );
+    expect(merged.overrides.map(({ action }) => action)).toEqual(["suppressed", "added"]);
+  });
+
+  it("should ignore invalid overlay files", async () => {
+    writeOverlay("react", "changes:\n  - action: rename\n    section: '2.1'\n");
+
+    const practice = await loadDocument("react");
+
+    expect(practice.overrides).toEqual([]);
+    expect(practice.content).toContain("Structure code by feature");
+  });
+
+  it("should reload documents when their overlay changes", async () => {
+    writeOverlay("react", "changes:\n  - action: suppress\n    section: '2.8'\n");
+    expect((await loadDocument("react")).content).not.toContain("2.8 Implement Lazy Loading");
+
+    writeOverlay("react", "changes: []\n");
+    expect((await loadDocument("react")).content).toContain("2.8 Implement Lazy Loading");
+
+    rmSync(path.join(dir, "react.yaml"));
+    expect((await loadDocument("react")).overrides).toEqual([]);
+  });
+
+  it("should leave older versions as written", async () => {
+    writeOverlay("tanstack-query", "changes:\n  - action: suppress\n    section: '1'\n");
+
+    expect((await loadDocument("tanstack-query")).overrides).toHaveLength(1);
+    expect((await loadDocument("tanstack-query", "v4")).overrides).toEqual([]);
+  });
+
+  it("should read the overlay directory from the CLI or the environment", () => {
+    expect(loadConfig(["--overlay-dir", "team"], {}).overlayDir).toBe("team");
+    expect(loadConfig([], { PRACTICE_OVERLAY_DIR: "shared" }).overlayDir).toBe("shared");
+    expect(loadConfig([], {}).overlayDir).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for the curated practice prompts
+ */
+
+import { describe, it, expect } from "vitest";
+import { fence, getPromptList, getPromptMessages } from "../src/prompts/practicePrompts";
+import { NotFoundError, ValidationError } from "../src/utils/errors";
+
+describe("getPromptList", () => {
+  it("should list prompts with their arguments", () => {
+    const prompts = getPromptList();
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "review-react-component",
+      "plan-nextjs-feature",
+      "migrate-to-zustand",
+    ]);
+    for (const prompt of prompts) {
+      expect(prompt.description.length).toBeGreaterThan(0);
+      expect(prompt.arguments.some((argument) => argument.required)).toBe(true);
+    }
+  });
+});
+
+describe("getPromptMessages", () => {
+  it("should build every prompt with embedded practice sections", async () => {
+    const args = { code: "const x = 1;", feature: "A settings page" };
+    for (const { name } of getPromptList()) {
+      const { messages } = await getPromptMessages(name, args);
+      const resources = messages.filter((message) => message.content.type === "resource");
+      expect(resources.length, name).toBeGreaterThan(0);
+      expect(messages.at(-1)?.content.type).toBe("text");
+    }
+  });
+
+  it("should embed the referenced sections as practice resources", async () => {
+    const { messages } = await getPromptMessages("migrate-to-zustand", {
+      code: "const store = createStore(reducer);",
+      source: "Redux",
+    });
+
+    const [first] = messages;
+    expect(first.content).toMatchObject({
+      type: "resource",
+      resource: { uri: "practice://zustand/picking-state", mimeType: "text/markdown" },
+    });
+    expect(JSON.stringify(first.content)).toContain("Picking State");
+
+    const instruction = messages.at(-1)!.content;
+    expect(instruction.type === "text" && instruction.text).toContain("Redux state management code");
+    expect(instruction.type === "text" && instruction.text).toContain("createStore(reducer)");
+  });
+
+  it("should keep code containing a fence inside a single code block", async () => {
+    const code = "/**\n * ```tsx\n * <Card />\n * ```\n */\nexport function Card() {}";
+    const { messages } = await getPromptMessages("review-react-component", { code });
+    const instruction = messages.at(-1)!.content;
+
+    expect(instruction.type === "text" && instruction.text).toContain(`\`\`\`\`tsx\n${code}\n\`\`\`\``);
+  });
+
+  it("should include optional arguments only when given", async () => {
+    const withFocus = await getPromptMessages("review-react-component", {
+      code: "export function Card() {}",
+      focus: "accessibility",
+    });
+    const withoutFocus = await getPromptMessages("review-react-component", {
+      code: "export function Card() {}",
+    });
+
+    expect(JSON.stringify(withFocus.messages.at(-1))).toContain("accessibility");
+    expect(JSON.stringify(withoutFocus.messages.at(-1))).not.toContain("Focus especially");
+  });
+
+  it("should reject unknown prompts and missing arguments", async () => {
+    await expect(getPromptMessages("missing")).rejects.toThrow(NotFoundError);
+    await expect(getPromptMessages("plan-nextjs-feature", {})).rejects.toThrow(ValidationError);
+    await expect(getPromptMessages("plan-nextjs-feature", { feature: "  " })).rejects.toThrow(
+      "Missing required arguments: feature"
+    );
+  });
+});
+
+describe("fence", () => {
+  it("should use a fence longer than the longest backtick run", () => {
+    expect(fence("const x = 1;")).toBe("```tsx\nconst x = 1;\n```");
+    expect(fence("a ````` b", "md")).toBe("``````md\na ````` b\n``````");
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for recommending practice topics from a package.json
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, mkdirSync, writeFileSync, symlinkSync, rmSync } from "fs";
+import {
+  analyzePackageJson,
+  majorVersion,
+  recommendPractices,
+} from "../src/tools/recommendPractices";
+import { configureProjectRoots, readPackageJson } from "../src/projects";
+import { configurePracticeDirs } from "../src/topics";
+import { recommendPracticesSchema } from "../src/validation";
+import { loadConfig } from "../src/config";
+import { SecurityError, ValidationError } from "../src/utils/errors";
+import { toolErrorResult } from "../src/tools";
+import { logger } from "../src/utils/logger";
+
+const NEXT_APP = JSON.stringify({
+  name: "web",
+  dependencies: {
+    next: "^15.0.3",
+    react: "19.0.0",
+    "@tanstack/react-query": "~5.59.0",
+    zustand: "^5.0.1",
+    formik: "^2.4.6",
+  },
+  devDependencies: { typescript: "^5.6.3", eslint: "^9.0.0", prettier: "^3.3.3" },
+});
+
+beforeEach(() => {
+  configurePracticeDirs([]);
+});
+
+describe("majorVersion", () => {
+  it("should read the major version of a range", () => {
+    expect(majorVersion("^18.2.0")).toBe(18);
+    expect(majorVersion(">=5 <6")).toBe(5);
+    expect(majorVersion("15.x")).toBe(15);
+    expect(majorVersion("latest")).toBeNull();
+    expect(majorVersion("workspace:*")).toBeNull();
+  });
+});
+
+describe("analyzePackageJson", () => {
+  it("should map dependencies to topics with their versions", () => {
+    const { name, topics } = analyzePackageJson(NEXT_APP);
+    expect(name).toBe("web");
+
+    const byTopic = Object.fromEntries(
+      topics.map(({ topic, packages }) => [topic, packages.map((pkg) => pkg.name)])
+    );
+    expect(byTopic).toEqual({
+      nextjs: ["next"],
+      react: ["next", "react"],
+      "tanstack-query": ["@tanstack/react-query"],
+      zustand: ["zustand"],
+      typescript: ["typescript"],
+    });
+    expect(topics.find(({ topic }) => topic === "nextjs")!.packages[0]).toEqual({
+      name: "next",
+      version: "^15.0.3",
+      major: 15,
+    });
+  });
+
+  it("should report gaps against the recommended stack", () => {
+    const { gaps } = analyzePackageJson(NEXT_APP);
+    const byCategory = Object.fromEntries(gaps.map((gap) => [gap.category, gap]));
+
+    expect(byCategory.State).toBeUndefined();
+    expect(byCategory.Validation.missing).toEqual(["zod"]);
+    expect(byCategory.Forms.missing).toEqual(["react-hook-form", "@hookform/resolvers"]);
+    expect(byCategory.Forms.using.map((pkg) => pkg.name)).toEqual(["formik"]);
+    expect(byCategory["Lint/format"].using.map((pkg) => pkg.name)).toEqual(["eslint", "prettier"]);
+  });
+
+  it("should skip stack gaps for projects without React", () => {
+    const result = analyzePackageJson(JSON.stringify({ dependencies: { typescript: "5.6.3" } }));
+    expect(result.isReactProject).toBe(false);
+    expect(result.gaps).toEqual([]);
+    expect(result.topics.map(({ topic }) => topic)).toEqual(["typescript"]);
+  });
+
+  it("should reject invalid package.json contents", () => {
+    expect(() => analyzePackageJson("{")).toThrow(ValidationError);
+    expect(() => analyzePackageJson("[]")).toThrow(ValidationError);
+    expect(() => analyzePackageJson("AWS_SECRET=abc")).toThrow("Invalid package.json: not valid JSON");
+  });
+});
+
+describe("recommendPractices", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), "practices-project-"));
+    mkdirSync(path.join(root, "apps", "web"), { recursive: true });
+    writeFileSync(path.join(root, "apps", "web", "package.json"), NEXT_APP);
+    configureProjectRoots([root]);
+  });
+
+  afterEach(() => {
+    configureProjectRoots([]);
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("should render topics and gaps from package.json contents", async () => {
+    const result = await recommendPractices({ packageJson: NEXT_APP });
+    expect(result).toContain("# Recommended Practices: web");
+    expect(result).toContain("- **nextjs** (Next.js) — practice://nextjs — from `next` ^15.0.3");
+    expect(result).toContain("## Gaps Against the Recommended Stack");
+    expect(result).toContain("- **Validation**: add `zod`");
+    expect(result).toContain("currently using `eslint` ^9.0.0, `prettier` ^3.3.3");
+  });
+
+  it("should read a package.json by path inside a project root", async () => {
+    expect(await readPackageJson("apps/web")).toBe(NEXT_APP);
+    expect(await readPackageJson(path.join(root, "apps", "web", "package.json"))).toBe(NEXT_APP);
+    expect(await recommendPractices({ path: "apps/web" })).toContain("# Recommended Practices: web");
+  });
+
+  it("should refuse paths outside the project roots", async () => {
+    await expect(readPackageJson("../package.json")).rejects.toThrow(SecurityError);
+    await expect(readPackageJson("/etc")).rejects.toThrow(SecurityError);
+
+    const outside = mkdtempSync(path.join(os.tmpdir(), "practices-outside-"));
+    writeFileSync(path.join(outside, "package.json"), "{}");
+    symlinkSync(outside, path.join(root, "linked"));
+    try {
+      await expect(readPackageJson("linked")).rejects.toThrow(SecurityError);
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("should report a missing package.json", async () => {
+    await expect(readPackageJson("apps")).rejects.toThrow(ValidationError);
+  });
+
+  it("should refuse paths when no project roots are configured", async () => {
+    configureProjectRoots([]);
+
+    await expect(readPackageJson(path.join(root, "apps", "web"))).rejects.toThrow(/disabled/);
+    await expect(recommendPractices({ path: "package.json" })).rejects.toThrow(ValidationError);
+  });
+
+  it("should report a package.json above the size limit as such", async () => {
+    writeFileSync(path.join(root, "package.json"), JSON.stringify({ description: "x".repeat(300_000) }));
+
+    const error = await readPackageJson(".").catch((caught: unknown) => caught);
+    expect(toolErrorResult(error, logger).content).toEqual([
+      { type: "text", text: "This package.json is too large to analyze (limit: 200000 bytes)" },
+    ]);
+  });
+
+  it("should only read files named package.json", async () => {
+    writeFileSync(path.join(root, ".env"), "AWS_SECRET=abc");
+    writeFileSync(path.join(root, "apps", "web", "tsconfig.json"), '{"name":"secret"}');
+    symlinkSync(path.join(root, ".env"), path.join(root, "apps", "package.json"));
+
+    await expect(readPackageJson(".env")).rejects.toThrow("No package.json found at .env");
+    await expect(readPackageJson("apps/web/tsconfig.json")).rejects.toThrow(ValidationError);
+    await expect(readPackageJson("apps/package.json")).rejects.toThrow(ValidationError);
+    await expect(recommendPractices({ path: ".env" })).rejects.toThrow("No package.json found at .env");
+  });
+});
+
+describe("recommendPracticesSchema", () => {
+  it("should require exactly one of packageJson and path", () => {
+    expect(recommendPracticesSchema.safeParse({ packageJson: "{}" }).success).toBe(true);
+    expect(recommendPracticesSchema.safeParse({ path: "." }).success).toBe(true);
+    expect(recommendPracticesSchema.safeParse({}).success).toBe(false);
+    expect(recommendPracticesSchema.safeParse({ packageJson: "{}", path: "." }).success).toBe(false);
+  });
+
+  it("should read project roots from flags and environment", () => {
+    expect(loadConfig([], {}).projectRoots).toEqual([]);
+    expect(
+      loadConfig(["--project-root", "/b"], { PROJECT_ROOTS: ["/a", "/c"].join(path.delimiter) }).projectRoots
+    ).toEqual(["/a", "/c", "/b"]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for the tool registry and the shared tool error mapping
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  defineTool,
+  describeTool,
+  getTool,
+  registerTool,
+  toolErrorResult,
+  unregisterTool,
+} from "../src/tools";
+import { createServer } from "../src/server";
+import { getTopicNames } from "../src/topics";
+import { MCPError, SectionNotFoundError } from "../src/utils/errors";
+import { logger } from "../src/utils/logger";
+
+class QuotaError extends MCPError {
+  constructor(message: string) {
+    super("QUOTA_EXCEEDED", message, 429);
+  }
+}
+
+const teamTool = defineTool({
+  name: "team_conventions",
+  description: "Team-specific conventions",
+  inputSchema: z.object({
+    team: z.string().min(1, "Team cannot be empty"),
+    limit: z.number().int().default(3),
+  }),
+  annotations: { readOnlyHint: true },
+  handler: async ({ team, limit }) => {
+    if (team === "over-quota") throw new QuotaError("Daily quota used up");
+    if (team === "broken") throw new Error("ENOENT: /secret/path");
+    return { text: `${team}: ${limit}`, structuredContent: { team, limit } };
+  },
+});
+
+async function connectClient(): Promise<Client> {
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+afterEach(() => {
+  unregisterTool(teamTool.name);
+});
+
+describe("tool registry", () => {
+  it("should list input schemas generated from the zod schemas", () => {
+    const tool = describeTool(getTool("search_best_practices")!);
+
+    expect(tool.inputSchema).toMatchObject({
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Free-text search query" },
+        topic: { type: "string", enum: getTopicNames() },
+        limit: { type: "integer", minimum: 1, maximum: 20, default: 5 },
+      },
+      required: ["query"],
+    });
+    expect(JSON.stringify(tool.inputSchema)).not.toContain("x-topic");
+    expect(tool.annotations).toMatchObject({ readOnlyHint: true });
+  });
+
+  it("should list topic enums inside arrays", () => {
+    const { inputSchema } = describeTool(getTool("compose_practices")!);
+    expect(inputSchema.properties?.topics).toMatchObject({ items: { enum: getTopicNames() } });
+  });
+
+  it("should refuse duplicate tool names", () => {
+    expect(() => registerTool({ ...teamTool, name: "get_best_practice" })).toThrow(
+      "Tool already registered: get_best_practice"
+    );
+  });
+
+  it("should serve registered plugin tools without server changes", async () => {
+    registerTool(teamTool);
+    const client = await connectClient();
+
+    const { tools } = await client.listTools();
+    expect(tools.find(({ name }) => name === "team_conventions")).toMatchObject({
+      description: "Team-specific conventions",
+      inputSchema: { properties: { team: { type: "string" } }, required: ["team"] },
+    });
+
+    const result = await client.callTool({ name: "team_conventions", arguments: { team: "web" } });
+    expect(result.content).toEqual([{ type: "text", text: "web: 3" }]);
+    expect(result.structuredContent).toEqual({ team: "web", limit: 3 });
+
+    const invalid = await client.callTool({ name: "team_conventions", arguments: { team: "" } });
+    expect(invalid).toMatchObject({ isError: true, content: [{ text: "Invalid input: Team cannot be empty" }] });
+
+    await client.close();
+  });
+});
+
+describe("toolErrorResult", () => {
+  it("should explain client errors, including those of plugin error classes", () => {
+    expect(toolErrorResult(new QuotaError("Daily quota used up"), logger)).toEqual({
+      isError: true,
+      content: [{ type: "text", text: "Daily quota used up" }],
+    });
+    expect(toolErrorResult(new SectionNotFoundError("react", "99"), logger).content).toEqual([
+      {
+        type: "text",
+        text: 'Section "99" in topic: react not found. Use list_practice_sections to see available sections',
+      },
+    ]);
+  });
+
+  it("should hide the details of server errors", async () => {
+    expect(toolErrorResult(new MCPError("UPSTREAM", "token=abc", 502), logger).content).toEqual([
+      { type: "text", text: "An error occurred while running the tool" },
+    ]);
+
+    registerTool(teamTool);
+    const client = await connectClient();
+    const result = await client.callTool({ name: "team_conventions", arguments: { team: "broken" } });
+    await client.close();
+
+    expect(result).toMatchObject({ isError: true, content: [{ text: "An unexpected error occurred" }] });
+  });
+});
@@ -2,14 +2,26 @@
  * Tests for resource handlers
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, mkdirSync, rmSync, unlinkSync, writeFileSync } from "fs";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import {
   getResourceUri,
-  isValidResourceUri,
-  extractTopicFromUri,
   getResourceList,
+  getResourceTemplates,
+  getSectionUri,
+  getExampleUri,
+  parseResourceUri,
 } from "../src/resources/practices";
-import { VALID_TOPICS } from "../src/types";
+import { RESOURCE_NOT_FOUND } from "../src/resources/resourceErrors";
+import { DEFAULT_MAX_FILE_SIZE, VALID_TOPICS } from "../src/types";
+import { createServer } from "../src/server";
+import { configurePracticeDirs } from "../src/topics";
+import { configureDocumentStore } from "../src/documentStore";
 
 describe("Resource Utilities", () => {
   describe("getResourceUri", () => {
@@ -27,67 +39,6 @@ describe("Resource Utilities", () => {
     });
   });
 
-  describe("isValidResourceUri", () => {
-    it("should accept valid resource URIs", () => {
-      for (const topic of VALID_TOPICS) {
-        const uri = `practice://${topic}`;
-        expect(isValidResourceUri(uri)).toBe(true);
-      }
-    });
-
-    it("should reject invalid URIs", () => {
-      const invalidUris = [
-        "http://example.com",
-        "file:///etc/passwd",
-        "practice://invalid",
-        "practice://biome",
-        "practice://",
-        "practice://react/extra",
-        "resource://react",
-        "react",
-        "",
-      ];
-
-      for (const uri of invalidUris) {
-        expect(isValidResourceUri(uri)).toBe(false);
-      }
-    });
-
-    it("should be case-sensitive for protocol", () => {
-      expect(isValidResourceUri("PRACTICE://react")).toBe(false);
-      expect(isValidResourceUri("Practice://react")).toBe(false);
-    });
-  });
-
-  describe("extractTopicFromUri", () => {
-    it("should extract topic from valid URIs", () => {
-      for (const topic of VALID_TOPICS) {
-        const uri = `practice://${topic}`;
-        const extracted = extractTopicFromUri(uri);
-        expect(extracted).toBe(topic);
-      }
-    });
-
-    it("should return null for invalid URIs", () => {
-      const invalidUris = [
-        "http://example.com",
-        "practice://invalid",
-        "practice://",
-        "resource://react",
-      ];
-
-      for (const uri of invalidUris) {
-        expect(extractTopicFromUri(uri)).toBeNull();
-      }
-    });
-
-    it("should handle edge cases", () => {
-      expect(extractTopicFromUri("")).toBeNull();
-      expect(extractTopicFromUri("practice://")).toBeNull();
-      expect(extractTopicFromUri("practice://react/extra")).toBeNull();
-    });
-  });
-
   describe("getResourceList", () => {
     it("should return list of all resources", () => {
       const resources = getResourceList();
@@ -141,5 +92,157 @@ describe("Resource Utilities", () => {
         expect(resource.description.toLowerCase()).toContain("best practices");
       }
     });
+
+    it("should expose front matter metadata", () => {
+      const react = getResourceList().find((r) => r.uri === "practice://react");
+      expect(react?.name).toBe("React Best Practices");
+      expect(react?._meta.tags).toContain("react");
+      expect(react?._meta.lastReviewed).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(react?._meta.related).toContain("nextjs");
+    });
+  });
+
+  describe("parseResourceUri", () => {
+    it("should parse document URIs", () => {
+      expect(parseResourceUri("practice://react")).toEqual({ kind: "document", topic: "react" });
+    });
+
+    it("should parse section URIs by number or slug", () => {
+      expect(parseResourceUri("practice://react/2.3")).toEqual({
+        kind: "section",
+        topic: "react",
+        section: "2.3",
+      });
+      expect(parseResourceUri("practice://tanstack-query/query-keys-invalidation")).toEqual({
+        kind: "section",
+        topic: "tanstack-query",
+        section: "query-keys-invalidation",
+      });
+      expect(parseResourceUri("practice://react/Core%20Best%20Practices")).toMatchObject({
+        section: "Core Best Practices",
+      });
+    });
+
+    it("should parse code example URIs", () => {
+      expect(parseResourceUri("practice://nextjs/examples/3")).toEqual({
+        kind: "example",
+        topic: "nextjs",
+        index: 3,
+      });
+    });
+
+    it("should reject malformed URIs and unknown topics", () => {
+      const invalidUris = [
+        "practice://unknown/1",
+        "practice://react/examples/0",
+        "practice://react/a/b",
+        "practice://react/%E0%A4%A",
+        "practice://react/",
+        "http://react/1",
+      ];
+      for (const uri of invalidUris) {
+        expect(parseResourceUri(uri), uri).toBeNull();
+      }
+    });
+
+    it("should round-trip generated URIs", () => {
+      expect(parseResourceUri(getSectionUri("react", "2.3"))).toMatchObject({ section: "2.3" });
+      expect(parseResourceUri(getExampleUri("react", 2))).toMatchObject({ index: 2 });
+    });
+  });
+
+  describe("getResourceTemplates", () => {
+    it("should describe section and example templates", () => {
+      expect(getResourceTemplates().map((template) => template.uriTemplate)).toEqual([
+        "practice://{topic}/{section}",
+        "practice://{topic}/examples/{n}",
+      ]);
+    });
+  });
+});
+
+describe("ReadResource errors", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    configureDocumentStore({ maxFileSize: DEFAULT_MAX_FILE_SIZE });
+    if (dir) {
+      configurePracticeDirs([]);
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  async function readError(uri: string): Promise<McpError> {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    try {
+      await client.readResource({ uri });
+    } catch (error) {
+      return error as McpError;
+    } finally {
+      await client.close();
+    }
+    throw new Error(`Reading ${uri} succeeded`);
+  }
+
+  it("should reject malformed URIs as invalid params", async () => {
+    const error = await readError("file:///etc/passwd");
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.message).toContain("Invalid resource URI: file:///etc/passwd");
+    expect(error.data).toEqual({ uri: "file:///etc/passwd", code: "VALIDATION_ERROR" });
+
+    for (const uri of ["practice://react/a/b", "practice://react/examples/0", "practice://"]) {
+      expect((await readError(uri)).code, uri).toBe(ErrorCode.InvalidParams);
+    }
+  });
+
+  it("should report missing topics, sections and examples as resource not found", async () => {
+    const uris = [
+      "practice://no-such-topic",
+      "practice://no-such-topic/2.1",
+      "practice://no-such-topic/examples/1",
+      "practice://react/no-such-section",
+      "practice://react/examples/999",
+    ];
+    for (const uri of uris) {
+      const error = await readError(uri);
+
+      expect(error.code, uri).toBe(RESOURCE_NOT_FOUND);
+      expect(error.message).toContain(`Resource not found: ${uri}`);
+      expect(error.data).toEqual({ uri, code: "NOT_FOUND" });
+    }
+  });
+
+  it("should report files above the size limit without their path", async () => {
+    configureDocumentStore({ maxFileSize: 10 });
+    const error = await readError("practice://react");
+
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain("too large to serve (limit: 10 bytes)");
+    expect(error.message).not.toContain(path.sep + "data");
+    expect(error.data).toEqual({ uri: "practice://react", code: "FILE_TOO_LARGE" });
+  });
+
+  it("should never leak file system messages", async () => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "practices-resources-"));
+    const file = path.join(dir, "graphql.md");
+    writeFileSync(file, "# GraphQL\n\n## 1. Schema\n\nDesign the schema first.\n");
+    configurePracticeDirs([dir]);
+    // The topic is discovered, but reading its file fails with EISDIR
+    unlinkSync(file);
+    mkdirSync(file);
+
+    const error = await readError("practice://graphql");
+
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain("An error occurred while reading the resource");
+    expect(error.message).not.toMatch(/EISDIR|practices-resources/);
+    expect(error.data).toEqual({ uri: "practice://graphql", code: "FILE_READ_ERROR" });
   });
 });
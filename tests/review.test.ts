@@ -0,0 +1,126 @@
+/**
+ * Tests for the review_code tool and its rule engine
+ */
+
+import { describe, it, expect } from "vitest";
+import { detectTopics, analyzeCode, packageName } from "../src/review/analyzer";
+import { getRules, ruleFileSchema, ReviewRule } from "../src/review/rules";
+import { reviewCode } from "../src/tools/reviewCode";
+import { getTopicNames } from "../src/topics";
+
+function rule(overrides: Partial<ReviewRule>): ReviewRule {
+  return {
+    id: "test/rule",
+    section: "1",
+    severity: "warning",
+    message: "Test rule",
+    pattern: "x",
+    flags: "",
+    topic: "typescript",
+    sectionSlug: "intro",
+    sectionTitle: "Intro",
+    sectionNumber: "1",
+    ...overrides,
+  };
+}
+
+describe("detectTopics", () => {
+  it("should detect topics from imports", () => {
+    const code = [
+      'import { create } from "zustand";',
+      "import { useQuery } from '@tanstack/react-query';",
+      'import Image from "next/image";',
+      'import { helper } from "./helper";',
+    ].join("\n");
+
+    expect(detectTopics(code).sort()).toEqual(
+      ["nextjs", "react", "tanstack-query", "typescript", "zustand"].sort()
+    );
+  });
+
+  it("should always include typescript and detect Tailwind class names", () => {
+    expect(detectTopics("const x = 1;")).toEqual(["typescript"]);
+    expect(detectTopics('<div className="p-4" />')).toContain("ui");
+  });
+
+  it("should reduce specifiers to package names", () => {
+    expect(packageName("@tanstack/react-query/devtools")).toBe("@tanstack/react-query");
+    expect(packageName("next/link")).toBe("next");
+    expect(packageName("../local")).toBeNull();
+  });
+});
+
+describe("analyzeCode", () => {
+  it("should report each match with its line", () => {
+    const findings = analyzeCode("a\nx\nb x", [rule({ pattern: "x" })]);
+    expect(findings.map((f) => [f.line, f.excerpt])).toEqual([
+      [2, "x"],
+      [3, "b x"],
+    ]);
+  });
+
+  it("should honour when and unless conditions", () => {
+    const code = "useEffect(() => {})";
+    expect(analyzeCode(code, [rule({ pattern: "useEffect", when: "fetch\\(" })])).toHaveLength(0);
+    expect(analyzeCode(code, [rule({ pattern: "useEffect", unless: "=>" })])).toHaveLength(0);
+    expect(analyzeCode(code, [rule({ pattern: "useEffect", when: "=>" })])).toHaveLength(1);
+  });
+});
+
+describe("rule files", () => {
+  it("should reject patterns that do not compile", () => {
+    const result = ruleFileSchema.safeParse({
+      topic: "react",
+      rules: [{ id: "r", section: "1", severity: "info", message: "m", pattern: "(" }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should resolve every built-in rule to a section of its document", async () => {
+    for (const topic of getTopicNames()) {
+      const rules = await getRules(topic);
+      expect(rules.length, topic).toBeGreaterThan(0);
+      for (const r of rules) {
+        expect(r.topic).toBe(topic);
+        expect(r.sectionSlug).toMatch(/^[a-z0-9-]+$/);
+      }
+    }
+  });
+});
+
+describe("reviewCode Tool", () => {
+  it("should flag whole-store selection in zustand", async () => {
+    const result = await reviewCode({
+      code: ['import { useBearStore } from "zustand";', "const state = useBearStore();"].join("\n"),
+    });
+
+    expect(result).toContain("zustand/no-whole-store-selection");
+    expect(result).toContain("(line 2)");
+    expect(result).toContain("practice://zustand/dont-pick-the-whole-state");
+  });
+
+  it("should flag any usage against typescript section 3", async () => {
+    const result = await reviewCode({ code: "function f(value: any) {}", topic: "typescript" });
+
+    expect(result).toContain("typescript/no-explicit-any");
+    expect(result).toContain("3 Avoid the any Type");
+    expect(result).toContain("practice://typescript/avoid-the-any-type");
+  });
+
+  it("should suggest query key factories for inline keys", async () => {
+    const result = await reviewCode({
+      code: [
+        'import { useQuery } from "@tanstack/react-query";',
+        'useQuery({ queryKey: ["todos"], queryFn: fetchTodos });',
+      ].join("\n"),
+    });
+
+    expect(result).toContain("tanstack-query/inline-query-key");
+    expect(result).toContain("practice://tanstack-query/query-keys-invalidation");
+  });
+
+  it("should report clean code", async () => {
+    const result = await reviewCode({ code: "const total = items.length;" });
+    expect(result).toBe("No issues found. Checked against: typescript");
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for the full-text search index and tool
+ */
+
+import { describe, it, expect } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import {
+  createSearchIndex,
+  getSearchIndex,
+  resetSearchIndex,
+  searchIndex,
+  tokenize,
+} from "../src/search/searchIndex";
+import { configurePracticeDirs } from "../src/topics";
+import { configureDocumentStore } from "../src/documentStore";
+import { DEFAULT_MAX_FILE_SIZE } from "../src/types";
+import { searchPractices } from "../src/tools/searchPractices";
+import { searchPracticesSchema } from "../src/validation";
+
+describe("tokenize", () => {
+  it("should normalize case, drop stop words and stem plurals", () => {
+    expect(tokenize("Memoize the Selectors")).toEqual(["memoiz", "selector"]);
+    expect(tokenize("queries")).toEqual(tokenize("query"));
+    expect(tokenize("caching")).toEqual(tokenize("cache"));
+  });
+});
+
+describe("searchIndex", () => {
+  const index = createSearchIndex([
+    {
+      topic: "alpha",
+      content: ["1. Selectors", "Memoize selectors to avoid renders.", "2. Other", "Unrelated."].join(
+        "\n"
+      ),
+    },
+    { topic: "beta", content: ["1. Caching", "Selectors are mentioned once."].join("\n") },
+  ]);
+
+  it("should rank title matches first", () => {
+    const results = searchIndex(index, "selectors");
+    expect(results[0]).toMatchObject({ topic: "alpha", title: "Selectors", slug: "selectors" });
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it("should filter by topic and honour the limit", () => {
+    expect(searchIndex(index, "selectors", { topic: "beta" })).toHaveLength(1);
+    expect(searchIndex(index, "selectors", { limit: 1 })).toHaveLength(1);
+  });
+
+  it("should include a snippet containing the match", () => {
+    const [result] = searchIndex(index, "memoize");
+    expect(result.snippet).toBe("Memoize selectors to avoid renders.");
+  });
+
+  it("should return nothing for stop-word-only or unmatched queries", () => {
+    expect(searchIndex(index, "the and of")).toEqual([]);
+    expect(searchIndex(index, "kubernetes")).toEqual([]);
+  });
+});
+
+describe("search across practice documents", () => {
+  it("should index every topic", async () => {
+    const index = await getSearchIndex();
+    const topics = new Set(index.sections.map((section) => section.topic));
+    expect(topics.size).toBe(6);
+  });
+
+  it("should find zustand selector guidance for 'memoize selectors'", async () => {
+    const results = searchIndex(await getSearchIndex(), "memoize selectors", { limit: 3 });
+    expect(results[0].topic).toBe("zustand");
+  });
+
+  it("should find the query keys section", async () => {
+    const results = searchIndex(await getSearchIndex(), "query key invalidation", { limit: 1 });
+    expect(results[0]).toMatchObject({ topic: "tanstack-query", number: "7" });
+  });
+
+  it("should leave out topics that can't be loaded", async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), "practices-search-"));
+    writeFileSync(path.join(dir, "small.md"), "# Small\n\n## 1. Tiny\n\nA tiny section.\n");
+    writeFileSync(path.join(dir, "large.md"), `# Large\n\n## 1. Huge\n\n${"word ".repeat(1000)}\n`);
+    configurePracticeDirs([dir]);
+    configureDocumentStore({ maxFileSize: 1500 });
+    resetSearchIndex();
+
+    try {
+      const topics = new Set((await getSearchIndex()).sections.map((section) => section.topic));
+      expect(topics).toContain("small");
+      expect(topics).not.toContain("large");
+    } finally {
+      configureDocumentStore({ maxFileSize: DEFAULT_MAX_FILE_SIZE });
+      configurePracticeDirs([]);
+      resetSearchIndex();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("searchPractices Tool", () => {
+  it("should render ranked results as markdown", async () => {
+    const output = await searchPractices({ query: "server actions forms", limit: 2 });
+    expect(output).toContain('# Search results for "server actions forms"');
+    expect(output).toContain("1. **nextjs › 11 Forms: prefer server actions**");
+  });
+
+  it("should report when nothing matches", async () => {
+    const output = await searchPractices({ query: "kubernetes", limit: 5 });
+    expect(output).toBe('No sections matched "kubernetes".');
+  });
+});
+
+describe("searchPracticesSchema", () => {
+  it("should default the limit", () => {
+    const result = searchPracticesSchema.parse({ query: "hooks" });
+    expect(result.limit).toBe(5);
+  });
+
+  it("should reject empty queries and invalid limits", () => {
+    expect(searchPracticesSchema.safeParse({ query: "  " }).success).toBe(false);
+    expect(searchPracticesSchema.safeParse({ query: "hooks", limit: 0 }).success).toBe(false);
+    expect(searchPracticesSchema.safeParse({ query: "hooks", limit: 21 }).success).toBe(false);
+  });
+
+  it("should reject unknown topics", () => {
+    expect(searchPracticesSchema.safeParse({ query: "hooks", topic: "python" }).success).toBe(
+      false
+    );
+  });
+});
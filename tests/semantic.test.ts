@@ -0,0 +1,256 @@
+/**
+ * Tests for the embedders, the semantic index and the find_practice tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, readFileSync, readdirSync, rmSync, existsSync } from "fs";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  configureEmbedder,
+  createHashingEmbedder,
+  createTransformersEmbedder,
+  Embedder,
+  getEmbedder,
+  hashText,
+  setEmbedder,
+} from "../src/search/embeddings";
+import {
+  buildSemanticIndex,
+  configureSemanticIndex,
+  getIndexFilePath,
+  getSemanticIndex,
+  querySemanticIndex,
+  resetSemanticIndex,
+} from "../src/search/semanticIndex";
+import { createSearchIndex } from "../src/search/searchIndex";
+import { findPractice } from "../src/tools/findPractice";
+import { createServer } from "../src/server";
+import { loadConfig } from "../src/config";
+
+const DOC = `# Sample
+
+## 1. Caching
+Cache responses with stale timers.
+
+## 2. Forms
+Validate forms with schemas before submitting.
+`;
+
+/**
+ * Hashing embedder that counts the texts it embeds
+ */
+function countingEmbedder(): Embedder & { count: number } {
+  const hashing = createHashingEmbedder();
+  const embedder = {
+    id: hashing.id,
+    count: 0,
+    embed: async (texts: string[]) => {
+      embedder.count += texts.length;
+      return hashing.embed(texts);
+    },
+  };
+  return embedder;
+}
+
+describe("hashing embedder", () => {
+  it("should return deterministic unit vectors", async () => {
+    const [first, second] = await createHashingEmbedder().embed(["avoid re-renders", "avoid re-renders"]);
+
+    expect(first).toHaveLength(512);
+    expect(first).toEqual(second);
+    expect(Math.hypot(...first)).toBeCloseTo(1, 6);
+    expect(hashText("")).toEqual(new Array(512).fill(0));
+  });
+
+  it("should use the configured model only when transformers.js is installed", () => {
+    let installed = true;
+    try {
+      require.resolve("@huggingface/transformers");
+    } catch {
+      installed = false;
+    }
+
+    configureEmbedder("Xenova/all-MiniLM-L6-v2");
+    expect(getEmbedder().id).toBe(installed ? "transformers:Xenova/all-MiniLM-L6-v2" : "hashing-v1-512");
+    configureEmbedder();
+    expect(getEmbedder().id).toBe("hashing-v1-512");
+  });
+});
+
+describe("transformers embedder", () => {
+  it("should load the model once and return its mean-pooled, normalized vectors", async () => {
+    const calls: unknown[][] = [];
+    const embedder = createTransformersEmbedder("Xenova/all-MiniLM-L6-v2", async () => ({
+      pipeline: async (task, model) => {
+        calls.push([task, model]);
+        return async (texts, options) => {
+          calls.push([texts, options]);
+          return { tolist: () => texts.map((text) => [text.length, 1]) };
+        };
+      },
+    }));
+
+    expect(embedder.id).toBe("transformers:Xenova/all-MiniLM-L6-v2");
+    expect(await embedder.embed(["ab", "abc"])).toEqual([
+      [2, 1],
+      [3, 1],
+    ]);
+    expect(await embedder.embed(["a"])).toEqual([[1, 1]]);
+    expect(calls).toEqual([
+      ["feature-extraction", "Xenova/all-MiniLM-L6-v2"],
+      [["ab", "abc"], { pooling: "mean", normalize: true }],
+      [["a"], { pooling: "mean", normalize: true }],
+    ]);
+  });
+
+  it("should retry loading after a failure", async () => {
+    let attempts = 0;
+    const embedder = createTransformersEmbedder("model", async () => {
+      attempts++;
+      if (attempts === 1) throw new Error("offline");
+      return { pipeline: async () => async (texts) => ({ tolist: () => texts.map(() => [1]) }) };
+    });
+
+    await expect(embedder.embed(["a"])).rejects.toThrow("offline");
+    expect(await embedder.embed(["a"])).toEqual([[1]]);
+  });
+});
+
+describe("buildSemanticIndex", () => {
+  it("should only embed sections that changed", async () => {
+    const embedder = countingEmbedder();
+    const { sections } = createSearchIndex([{ topic: "sample", content: DOC }]);
+
+    const first = await buildSemanticIndex(sections, embedder);
+    expect(first.embedded).toBe(2);
+
+    const previous = {
+      version: 1 as const,
+      embedder: embedder.id,
+      sections: first.index.sections.map(({ id, hash, vector }) => ({ id, hash, vector })),
+    };
+    const changed = createSearchIndex([
+      { topic: "sample", content: DOC.replace("stale timers", "background refetching") },
+    ]);
+    const second = await buildSemanticIndex(changed.sections, embedder, previous);
+
+    expect(second.embedded).toBe(1);
+    expect(embedder.count).toBe(3);
+    expect(second.index.sections[1].vector).toEqual(first.index.sections[1].vector);
+    expect(second.index.sections[0].hash).not.toBe(first.index.sections[0].hash);
+  });
+
+  it("should rank sections by similarity and filter by topic", async () => {
+    const embedder = createHashingEmbedder();
+    const { sections } = createSearchIndex([
+      { topic: "sample", content: DOC },
+      { topic: "other", content: "# Other\n\n## 1. Forms\nSchemas validate forms.\n" },
+    ]);
+    const { index } = await buildSemanticIndex(sections, embedder);
+    const [vector] = await embedder.embed(["validate forms"]);
+
+    const results = querySemanticIndex(index, vector, { topic: "sample" });
+    expect(results[0]).toMatchObject({ topic: "sample", slug: "forms", uri: "practice://sample/forms" });
+    expect(results.every(({ topic }) => topic === "sample")).toBe(true);
+    expect(querySemanticIndex(index, vector, { limit: 1 })).toHaveLength(1);
+  });
+});
+
+describe("semantic index on disk", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "practices-index-"));
+    configureSemanticIndex(dir);
+  });
+
+  afterEach(() => {
+    configureSemanticIndex();
+    configureEmbedder();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should store the index and reuse it after a reload", async () => {
+    const embedder = countingEmbedder();
+    setEmbedder(embedder);
+
+    const index = await getSemanticIndex();
+    const file = getIndexFilePath(embedder)!;
+    expect(existsSync(file)).toBe(true);
+    expect(JSON.parse(readFileSync(file, "utf-8"))).toMatchObject({
+      version: 1,
+      embedder: "hashing-v1-512",
+      sections: expect.any(Array),
+    });
+    expect(embedder.count).toBe(index.sections.length);
+
+    resetSemanticIndex();
+    await getSemanticIndex();
+    expect(embedder.count).toBe(index.sections.length);
+  });
+
+  it("should keep the index in memory when no directory is configured", async () => {
+    configureSemanticIndex();
+    const embedder = countingEmbedder();
+    setEmbedder(embedder);
+
+    expect(getIndexFilePath(embedder)).toBeNull();
+    const index = await getSemanticIndex();
+    resetSemanticIndex();
+    await getSemanticIndex();
+
+    expect(embedder.count).toBe(index.sections.length);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it("should find sections for a question through find_practice", async () => {
+    const { text, structuredContent } = await findPractice({
+      query: "avoid re-renders when reading store",
+      limit: 3,
+    });
+
+    expect(structuredContent.embedder).toBe("hashing-v1-512");
+    expect(structuredContent.results).toHaveLength(3);
+    expect(structuredContent.results[0].topic).toBe("zustand");
+    expect(text).toMatch(/^# Sections for "avoid re-renders when reading store"\n\n1\. \*\*zustand › /);
+    expect(text).toContain(structuredContent.results[0].uri);
+  });
+
+  it("should be callable over MCP with a topic filter", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { tools } = await client.listTools();
+    expect(tools.find(({ name }) => name === "find_practice")?.outputSchema).toBeDefined();
+
+    const result = await client.callTool({
+      name: "find_practice",
+      arguments: { query: "cache invalidation after a mutation", topic: "tanstack-query" },
+    });
+    await client.close();
+
+    const { results } = result.structuredContent as { results: { topic: string }[] };
+    expect(result.isError).toBeFalsy();
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every(({ topic }) => topic === "tanstack-query")).toBe(true);
+  });
+});
+
+describe("semantic search config", () => {
+  it("should read the index directory and model from the CLI or the environment", () => {
+    expect(loadConfig(["--index-dir", "cache", "--embedding-model", "Xenova/bge-small-en-v1.5"], {})).toMatchObject({
+      indexDir: "cache",
+      embeddingModel: "Xenova/bge-small-en-v1.5",
+    });
+    expect(loadConfig([], { PRACTICE_INDEX_DIR: "shared", EMBEDDING_MODEL: "model" })).toMatchObject({
+      indexDir: "shared",
+      embeddingModel: "model",
+    });
+    expect(loadConfig([], {}).embeddingModel).toBeUndefined();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for the structured JSON output of get_best_practice
+ */
+
+import { describe, it, expect } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { parseDocument } from "../src/utils/markdown";
+import {
+  practiceOutputSchema,
+  structurePreamble,
+  structureSection,
+} from "../src/utils/structuredDocument";
+import { getPracticeOutput } from "../src/tools/getPractice";
+import { getPracticeSchema } from "../src/validation";
+import { createServer } from "../src/server";
+
+const DOCUMENT = [
+  "# Guide",
+  "",
+  "Intro text.",
+  "",
+  "## 1. Stores",
+  "",
+  "Keep stores small.",
+  "",
+  "✅ One store per domain",
+  "- ❌ A single global store",
+  "",
+  "```TS",
+  "const useStore = create(() => ({}));",
+  "```",
+  "",
+  "### 1.1 Selectors",
+  "",
+  "✅ Select the smallest slice",
+  "",
+  "## 2. Testing",
+  "",
+  "~~~",
+  "pnpm test",
+  "~~~",
+].join("\n");
+
+async function connectClient(): Promise<Client> {
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe("structureSection", () => {
+  const document = parseDocument(DOCUMENT);
+
+  it("should split a section into prose, code blocks and do/don't rules", () => {
+    const stores = structureSection(document, document.sections[0]);
+
+    expect(stores).toMatchObject({ number: "1", title: "Stores", slug: "stores", level: 1 });
+    expect(stores.body).toBe("Keep stores small.\n\n✅ One store per domain\n- ❌ A single global store");
+    expect(stores.codeBlocks).toEqual([{ language: "ts", code: "const useStore = create(() => ({}));" }]);
+    expect(stores.dos).toEqual(["One store per domain"]);
+    expect(stores.donts).toEqual(["A single global store"]);
+  });
+
+  it("should keep subsections out of their parent's content", () => {
+    const stores = structureSection(document, document.sections[0]);
+
+    expect(stores.dos).not.toContain("Select the smallest slice");
+    expect(stores.children).toHaveLength(1);
+    expect(stores.children[0]).toMatchObject({
+      number: "1.1",
+      slug: "selectors",
+      dos: ["Select the smallest slice"],
+      children: [],
+    });
+  });
+
+  it("should accept fences without a language", () => {
+    expect(structureSection(document, document.sections[1]).codeBlocks).toEqual([
+      { language: null, code: "pnpm test" },
+    ]);
+  });
+
+  it("should structure the content before the first section without the title", () => {
+    expect(structurePreamble(document).body).toBe("Intro text.");
+  });
+});
+
+describe("getPracticeOutput", () => {
+  it("should default to markdown with a structured summary", async () => {
+    const result = await getPracticeOutput({ topic: "zustand", section: "2" });
+    expect(result.text).toContain("Calculated");
+    expect(result.structuredContent).toEqual({
+      format: "markdown",
+      topic: "zustand",
+      version: "latest",
+      section: "calculated-derived-state",
+    });
+  });
+
+  it("should return a schema-conforming section tree as JSON", async () => {
+    const result = await getPracticeOutput({ topic: "tanstack-query", format: "json" });
+    const output = practiceOutputSchema.parse(result.structuredContent);
+
+    expect(output).toMatchObject({ format: "json", topic: "tanstack-query", version: "v5" });
+    expect(output.sections!.length).toBeGreaterThan(5);
+    expect(JSON.parse(result.text)).toEqual(result.structuredContent);
+
+    const pitfalls = output.sections!.find((section) => section.title === "Common Pitfalls");
+    expect(pitfalls?.donts).toContain("Fetching in useEffect manually");
+    expect(pitfalls?.dos).toContain("Always use useQuery");
+  });
+
+  it("should return only the requested section", async () => {
+    const { structuredContent } = await getPracticeOutput({
+      topic: "tanstack-query",
+      section: "3",
+      format: "json",
+    });
+
+    expect(structuredContent.preamble).toBeUndefined();
+    expect(structuredContent.sections).toHaveLength(1);
+    expect(structuredContent.sections![0].codeBlocks.map((block) => block.language)).toEqual([
+      "bash",
+      "ts",
+      "tsx",
+    ]);
+  });
+
+  it("should reject unknown formats", () => {
+    expect(getPracticeSchema.safeParse({ topic: "react", format: "html" }).success).toBe(false);
+  });
+});
+
+describe("get_best_practice over MCP", () => {
+  it("should declare an output schema and return valid text and structured content", async () => {
+    const client = await connectClient();
+
+    const { tools } = await client.listTools();
+    const tool = tools.find(({ name }) => name === "get_best_practice");
+    expect(tool?.outputSchema?.type).toBe("object");
+
+    // The client validates structuredContent against the declared schema
+    const markdown = await client.callTool({ name: "get_best_practice", arguments: { topic: "react" } });
+    expect(markdown.content).toEqual([{ type: "text", text: expect.stringContaining("React") }]);
+    expect(markdown.structuredContent).toEqual({ format: "markdown", topic: "react", version: "latest" });
+
+    const json = await client.callTool({
+      name: "get_best_practice",
+      arguments: { topic: "zustand", format: "json" },
+    });
+    expect(json.structuredContent).toMatchObject({ format: "json", topic: "zustand" });
+
+    const sections = await client.callTool({ name: "list_practice_sections", arguments: { topic: "react" } });
+    expect(sections.content).toEqual([{ type: "text", text: expect.stringContaining("# Sections") }]);
+
+    await client.close();
+  });
+});
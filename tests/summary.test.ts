@@ -0,0 +1,142 @@
+/**
+ * Tests for condensed, token-budgeted practice documents
+ */
+
+import { describe, it, expect } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { parseDocument, Section } from "../src/utils/markdown";
+import { summarizeDocument } from "../src/utils/summary";
+import { estimateTokens } from "../src/utils/tokens";
+import { getPracticeOutput } from "../src/tools/getPractice";
+import { getPracticeSchema } from "../src/validation";
+import { createServer } from "../src/server";
+
+const DOCUMENT = parseDocument(
+  [
+    "# Stores",
+    "",
+    "## 1. Setup",
+    "",
+    "Use:",
+    "- One store per domain keeps updates local. Split when it grows.",
+    "",
+    "```ts",
+    "const useStore = create(() => ({}));",
+    "```",
+    "",
+    "✅ Type the store",
+    "❌ Mutate state directly",
+    "",
+    "### 1.1 Selectors",
+    "",
+    "Select the smallest slice of state you need.",
+    "",
+    "### 1.2 Middleware",
+    "",
+    "Wrap stores with devtools in development.",
+    "",
+    "## 2. Testing",
+    "",
+    "Reset stores between tests.",
+  ].join("\n")
+);
+
+const formatOmitted = (omitted: Section[]) => `Omitted: ${omitted.map(({ number }) => number).join(", ")}`;
+
+describe("summarizeDocument", () => {
+  it("should keep headings, ✅ rules and a one-line takeaway per section", () => {
+    const { text, omitted } = summarizeDocument(DOCUMENT, { title: "Stores (summary)", formatOmitted });
+
+    expect(omitted).toEqual([]);
+    expect(text).toBe(
+      [
+        "# Stores (summary)",
+        "## 1 Setup\n\nOne store per domain keeps updates local.\n\n- ✅ Type the store",
+        "### 1.1 Selectors\n\nSelect the smallest slice of state you need.",
+        "### 1.2 Middleware\n\nWrap stores with devtools in development.",
+        "## 2 Testing\n\nReset stores between tests.",
+      ].join("\n\n")
+    );
+  });
+
+  it("should drop the deepest, latest sections first to fit the budget", () => {
+    const full = summarizeDocument(DOCUMENT, { title: "Stores", formatOmitted }).text;
+    const maxTokens = estimateTokens(full) - 5;
+    const { text, omitted } = summarizeDocument(DOCUMENT, { title: "Stores", maxTokens, formatOmitted });
+
+    expect(omitted.map(({ number }) => number)).toEqual(["1.2"]);
+    expect(text).toContain("### 1.1 Selectors");
+    expect(text.endsWith("Omitted: 1.2")).toBe(true);
+    expect(estimateTokens(text)).toBeLessThanOrEqual(maxTokens);
+
+    const tight = summarizeDocument(DOCUMENT, { title: "Stores", maxTokens: 30, formatOmitted });
+    expect(tight.omitted.map(({ number }) => number)).toEqual(["1.1", "1.2", "2"]);
+    expect(summarizeDocument(DOCUMENT, { title: "Stores", maxTokens: 30, formatOmitted })).toEqual(tight);
+  });
+
+  it("should summarize only the given sections", () => {
+    const { text } = summarizeDocument(DOCUMENT, {
+      title: "Stores",
+      sections: [DOCUMENT.sections[0].children[0]],
+      formatOmitted,
+    });
+    expect(text).toBe("# Stores\n\n## 1.1 Selectors\n\nSelect the smallest slice of state you need.");
+  });
+});
+
+describe("get_best_practice detail and max_tokens", () => {
+  it("should return a summary on request", async () => {
+    const { text, structuredContent } = await getPracticeOutput({ topic: "react", detail: "summary" });
+
+    expect(text).toMatch(/^# React \(summary\)/);
+    expect(text).toContain("- ✅ Group by route/feature when using Next.js App Router.");
+    expect(text).not.toContain("```");
+    expect(structuredContent).toEqual({ format: "markdown", topic: "react", version: "latest", detail: "summary" });
+  });
+
+  it("should only condense documents that exceed max_tokens", async () => {
+    const section = await getPracticeOutput({ topic: "react", section: "2.12", max_tokens: 5000 });
+    expect(section.text).toMatch(/^2\.12 Prefer Functional Components/);
+    expect(section.structuredContent.detail).toBeUndefined();
+  });
+
+  it("should trim to the budget and list the omitted sections", async () => {
+    const { text, structuredContent } = await getPracticeOutput({ topic: "react", max_tokens: 250 });
+
+    expect(estimateTokens(text)).toBeLessThanOrEqual(250);
+    expect(text).toContain("practice://react/<section>: 2.4, 2.5");
+    expect(structuredContent.omitted).toContain("practice://react/use-biome-for-linting-formatting");
+    expect(structuredContent.omitted).not.toContain("practice://react/maintain-clear-folder-structure");
+  });
+
+  it("should reject summaries of JSON output", () => {
+    expect(getPracticeSchema.safeParse({ topic: "react", format: "json", detail: "summary" }).success).toBe(false);
+    expect(getPracticeSchema.safeParse({ topic: "react", max_tokens: 10 }).success).toBe(false);
+    expect(getPracticeSchema.safeParse({ topic: "react", detail: "short" }).success).toBe(false);
+  });
+
+  it("should reject full detail with a token budget", () => {
+    const result = getPracticeSchema.safeParse({ topic: "nextjs", detail: "full", max_tokens: 100 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toContain('detail "full" cannot be combined with max_tokens');
+    expect(getPracticeSchema.safeParse({ topic: "nextjs", detail: "summary", max_tokens: 100 }).success).toBe(true);
+  });
+
+  it("should return summaries that match the declared output schema", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({
+      name: "get_best_practice",
+      arguments: { topic: "nextjs", max_tokens: 300 },
+    });
+    await client.close();
+
+    expect(result.structuredContent).toMatchObject({ detail: "summary", omitted: expect.any(Array) });
+    expect(result.content).toEqual([{ type: "text", text: expect.stringContaining("_Omitted to fit 300 tokens") }]);
+  });
+});
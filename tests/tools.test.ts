@@ -4,7 +4,13 @@
 
 import { describe, it, expect } from "vitest";
 import { getPractice } from "../src/tools/getPractice";
-import { NotFoundError, FileReadError } from "../src/utils/errors";
+import { listSections } from "../src/tools/listSections";
+import { getCodeExamples, getCodeExample } from "../src/tools/getCodeExamples";
+import {
+  NotFoundError,
+  FileReadError,
+  SectionNotFoundError,
+} from "../src/utils/errors";
 
 describe("getPractice Tool", () => {
   it("should retrieve content for valid topics", async () => {
@@ -115,3 +121,98 @@ describe("getPractice Tool - Content Validation", () => {
     }
   });
 });
+
+describe("getPractice Tool - Front Matter", () => {
+  it("should not include front matter in returned content", async () => {
+    const content = await getPractice({ topic: "react" });
+    expect(content).not.toMatch(/^---/);
+    expect(content).not.toContain("lastReviewed:");
+  });
+});
+
+describe("getPractice Tool - Sections", () => {
+  it("should return a single section by number", async () => {
+    const content = await getPractice({ topic: "tanstack-query", section: "7" });
+    expect(content).toMatch(/^7\. Query Keys & Invalidation/);
+    expect(content).not.toContain("8. Mutations");
+  });
+
+  it("should return a single section by slug", async () => {
+    const content = await getPractice({
+      topic: "zustand",
+      section: "private-state-with-typescript",
+    });
+    expect(content).toContain("Private State with TypeScript");
+    expect(content).not.toContain("Architecture Tips");
+  });
+
+  it("should include subsections of the requested section", async () => {
+    const content = await getPractice({ topic: "react", section: "2" });
+    expect(content).toContain("2.1 Maintain Clear Folder Structure");
+    expect(content).toContain("2.14 Optimize Deployment and Hosting");
+    expect(content).not.toContain("Recommended Packages");
+  });
+
+  it("should throw SectionNotFoundError for unknown sections", async () => {
+    await expect(
+      getPractice({ topic: "react", section: "does-not-exist" })
+    ).rejects.toBeInstanceOf(SectionNotFoundError);
+  });
+});
+
+describe("listSections Tool", () => {
+  it("should list section numbers and slugs", async () => {
+    const toc = await listSections({ topic: "tanstack-query" });
+    expect(toc).toContain("7 Query Keys & Invalidation (`query-keys-invalidation`)");
+  });
+
+  it("should indent nested sections", async () => {
+    const toc = await listSections({ topic: "react" });
+    expect(toc).toContain("  - 2.3 Adhere to Naming Conventions");
+  });
+
+  it("should throw NotFoundError for invalid topics", async () => {
+    await expect(listSections({ topic: "invalid" })).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
+
+describe("getCodeExamples Tool", () => {
+  it("should return code blocks with their section and context", async () => {
+    const output = await getCodeExamples({ topic: "tanstack-query", section: "7" });
+    expect(output).toContain("# Code examples: tanstack-query (2)");
+    expect(output).toContain("7 Query Keys & Invalidation (`query-keys-invalidation`)");
+    expect(output).toContain("Use structured query keys for predictable cache control.");
+    expect(output).toContain("```ts\nqueryClient.invalidateQueries");
+  });
+
+  it("should filter by language, including aliases", async () => {
+    const output = await getCodeExamples({ topic: "typescript", language: "typescript" });
+    expect(output).toContain("```ts");
+    expect(output).not.toContain("```json");
+  });
+
+  it("should report when no examples match", async () => {
+    const output = await getCodeExamples({ topic: "react", language: "go" });
+    expect(output).toBe("No code examples found for topic: react (language: go)");
+  });
+
+  it("should throw SectionNotFoundError for unknown sections", async () => {
+    await expect(
+      getCodeExamples({ topic: "react", section: "missing-section" })
+    ).rejects.toBeInstanceOf(SectionNotFoundError);
+  });
+});
+
+describe("getCodeExample Tool", () => {
+  it("should return a single example by index", async () => {
+    const result = await getCodeExample("tanstack-query", 1);
+    expect(result).toMatch(/^## Example 1: /);
+    expect(result).toContain("```");
+  });
+
+  it("should throw NotFoundError for missing examples", async () => {
+    await expect(getCodeExample("tanstack-query", 9999)).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for topic discovery from external practice directories
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import {
+  configurePracticeDirs,
+  discoverTopics,
+  getTopicNames,
+  getTopic,
+  topicNameFromFile,
+} from "../src/topics";
+import { loadConfig } from "../src/config";
+import { getPractice } from "../src/tools/getPractice";
+import { getPracticeSchema } from "../src/validation";
+import { getResourceList, parseResourceUri } from "../src/resources/practices";
+import { VALID_TOPICS } from "../src/types";
+
+let tempRoot: string;
+let teamDir: string;
+let otherDir: string;
+
+beforeAll(() => {
+  tempRoot = mkdtempSync(path.join(os.tmpdir(), "practices-"));
+  teamDir = path.join(tempRoot, "team");
+  otherDir = path.join(tempRoot, "other");
+  mkdirSync(teamDir);
+  mkdirSync(otherDir);
+
+  writeFileSync(path.join(teamDir, "graphql-best-practices.md"), "# GraphQL\n\n1. Schemas\n");
+  writeFileSync(path.join(teamDir, "Testing.md"), "## 1. Unit tests\n");
+  writeFileSync(path.join(teamDir, "react.md"), "# Shadowed react\n");
+  writeFileSync(path.join(teamDir, "notes.txt"), "not markdown");
+  writeFileSync(path.join(teamDir, "bad name!.md"), "invalid");
+  writeFileSync(path.join(otherDir, "graphql.md"), "# Duplicate graphql\n");
+});
+
+afterAll(() => {
+  rmSync(tempRoot, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  configurePracticeDirs([]);
+});
+
+describe("topicNameFromFile", () => {
+  it("should strip the markdown extension and best-practices suffix", () => {
+    expect(topicNameFromFile("graphql-best-practices.md")).toBe("graphql");
+    expect(topicNameFromFile("Testing.md")).toBe("testing");
+  });
+
+  it("should reject non-markdown files and invalid names", () => {
+    expect(topicNameFromFile("notes.txt")).toBeNull();
+    expect(topicNameFromFile("bad name!.md")).toBeNull();
+    expect(topicNameFromFile("../evil.md")).toBeNull();
+  });
+});
+
+describe("discoverTopics", () => {
+  it("should only contain built-in topics without external directories", () => {
+    expect([...discoverTopics([]).keys()]).toEqual([...VALID_TOPICS]);
+  });
+
+  it("should add one topic per markdown file", () => {
+    const topics = discoverTopics([teamDir]);
+    expect(topics.get("graphql")).toMatchObject({ root: teamDir, builtin: false });
+    expect(topics.get("testing")?.fileName).toBe("Testing.md");
+    expect(topics.has("notes")).toBe(false);
+  });
+
+  it("should keep built-in and earlier topics on name clashes", () => {
+    const topics = discoverTopics([teamDir, otherDir]);
+    expect(topics.get("react")?.builtin).toBe(true);
+    expect(topics.get("graphql")?.root).toBe(teamDir);
+  });
+
+  it("should skip directories that do not exist", () => {
+    const topics = discoverTopics([path.join(tempRoot, "missing")]);
+    expect(topics.size).toBe(VALID_TOPICS.length);
+  });
+});
+
+describe("configured practice directories", () => {
+  it("should serve discovered topics through getPractice", async () => {
+    configurePracticeDirs([teamDir]);
+    const content = await getPractice({ topic: "graphql" });
+    expect(content).toContain("# GraphQL");
+  });
+
+  it("should generate validation and resources from the discovered set", () => {
+    expect(getPracticeSchema.safeParse({ topic: "graphql" }).success).toBe(false);
+
+    configurePracticeDirs([teamDir]);
+    expect(getTopicNames()).toContain("graphql");
+    expect(getPracticeSchema.safeParse({ topic: "GraphQL" }).success).toBe(true);
+    expect(parseResourceUri("practice://graphql")).toEqual({ kind: "document", topic: "graphql" });
+
+    const resource = getResourceList().find((r) => r.uri === "practice://graphql");
+    expect(resource?.name).toBe("Graphql Best Practices");
+  });
+
+  it("should list discovered topics in validation errors", () => {
+    configurePracticeDirs([teamDir]);
+    const result = getPracticeSchema.safeParse({ topic: "python" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain("graphql");
+    }
+  });
+
+  it("should confine each topic to its own root", () => {
+    configurePracticeDirs([teamDir]);
+    expect(getTopic("graphql")?.root).toBe(teamDir);
+    expect(getTopic("react")?.root).not.toBe(teamDir);
+  });
+});
+
+describe("loadConfig", () => {
+  it("should read directories from PRACTICE_DIRS and --practice-dir", () => {
+    const config = loadConfig(["--practice-dir", "/b", "--practice-dir=/c"], {
+      PRACTICE_DIRS: ["/a", "/d"].join(path.delimiter),
+    });
+    expect(config.practiceDirs).toEqual(["/a", "/d", "/b", "/c"]);
+  });
+
+  it("should default to no external directories", () => {
+    expect(loadConfig([], {}).practiceDirs).toEqual([]);
+  });
+});
@@ -82,3 +82,20 @@ describe("getPracticeSchema", () => {
     }
   });
 });
+
+describe("getPracticeSchema - section", () => {
+  it("should accept an optional section", () => {
+    const result = getPracticeSchema.safeParse({ topic: "react", section: "2.3" });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.section).toBe("2.3");
+    }
+  });
+
+  it("should reject empty or overly long sections", () => {
+    expect(getPracticeSchema.safeParse({ topic: "react", section: "" }).success).toBe(false);
+    expect(
+      getPracticeSchema.safeParse({ topic: "react", section: "a".repeat(101) }).success
+    ).toBe(false);
+  });
+});
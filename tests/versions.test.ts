@@ -0,0 +1,168 @@
+/**
+ * Tests for versioned practice documents
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  configurePracticeDirs,
+  discoverTopics,
+  getTopicVersion,
+  parsePracticeFileName,
+} from "../src/topics";
+import { loadDocument } from "../src/documentStore";
+import { getPractice } from "../src/tools/getPractice";
+import { listSections } from "../src/tools/listSections";
+import { analyzePackageJson } from "../src/tools/recommendPractices";
+import { getResourceList } from "../src/resources/practices";
+import { createServer } from "../src/server";
+import { VersionNotFoundError } from "../src/utils/errors";
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "practices-versions-"));
+  writeFileSync(path.join(dir, "graphql.md"), "---\nlibraryVersion: v16\n---\n# GraphQL 16\n\n## 1. Schemas\n");
+  writeFileSync(path.join(dir, "graphql@v15.md"), "# GraphQL 15\n\n## 1. Legacy schemas\n");
+  writeFileSync(path.join(dir, "graphql@v14.md"), "# GraphQL 14\n");
+  writeFileSync(path.join(dir, "graphql@v16.md"), "# Duplicate of the main document\n");
+  writeFileSync(path.join(dir, "orphan@v1.md"), "# No main document\n");
+  writeFileSync(path.join(dir, "react@v17.md"), "# Not next to the built-in react document\n");
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  configurePracticeDirs([]);
+});
+
+describe("parsePracticeFileName", () => {
+  it("should read the topic and version of a file", () => {
+    expect(parsePracticeFileName("tanstack-query-best-practices@v4.md")).toEqual({
+      topic: "tanstack-query",
+      version: "v4",
+    });
+    expect(parsePracticeFileName("NextJS@Pages-Router.md")).toEqual({
+      topic: "nextjs",
+      version: "pages-router",
+    });
+    expect(parsePracticeFileName("graphql.md")).toEqual({ topic: "graphql", version: null });
+  });
+
+  it("should reject invalid and reserved versions", () => {
+    expect(parsePracticeFileName("graphql@.md")).toBeNull();
+    expect(parsePracticeFileName("graphql@bad version.md")).toBeNull();
+    expect(parsePracticeFileName("graphql@latest.md")).toBeNull();
+  });
+});
+
+describe("discoverTopics versions", () => {
+  it("should list the main document first and other versions newest first", () => {
+    const graphql = discoverTopics([dir]).get("graphql");
+    expect(graphql?.versions).toEqual([
+      { version: "v16", fileName: "graphql.md", latest: true },
+      { version: "v15", fileName: "graphql@v15.md", latest: false },
+      { version: "v14", fileName: "graphql@v14.md", latest: false },
+    ]);
+  });
+
+  it("should ignore versions without a main document in the same directory", () => {
+    const topics = discoverTopics([dir]);
+    expect(topics.has("orphan")).toBe(false);
+    expect(topics.get("react")?.versions.map(({ version }) => version)).toEqual(["latest"]);
+  });
+
+  it("should ship TanStack Query v4 next to the latest edition", () => {
+    expect(discoverTopics([]).get("tanstack-query")?.versions.map(({ version }) => version)).toEqual([
+      "v5",
+      "v4",
+    ]);
+  });
+
+  it("should resolve latest and explicit versions", () => {
+    configurePracticeDirs([dir]);
+    expect(getTopicVersion("graphql")?.fileName).toBe("graphql.md");
+    expect(getTopicVersion("graphql", "LATEST")?.fileName).toBe("graphql.md");
+    expect(getTopicVersion("graphql", "v16")?.fileName).toBe("graphql.md");
+    expect(getTopicVersion("graphql", "v15")?.fileName).toBe("graphql@v15.md");
+    expect(getTopicVersion("graphql", "v13")).toBeUndefined();
+  });
+});
+
+describe("versioned documents", () => {
+  it("should serve the requested version", async () => {
+    configurePracticeDirs([dir]);
+    expect(await getPractice({ topic: "graphql" })).toContain("# GraphQL 16");
+    expect(await getPractice({ topic: "graphql", version: "v15" })).toContain("# GraphQL 15");
+    expect(await getPractice({ topic: "graphql", version: "v15", section: "1" })).toContain(
+      "Legacy schemas"
+    );
+    expect((await loadDocument("graphql", "v15")).version).toBe("v15");
+  });
+
+  it("should cache each version separately", async () => {
+    configurePracticeDirs([dir]);
+    const latest = await loadDocument("graphql");
+    const older = await loadDocument("graphql", "v14");
+    expect(latest.content).not.toBe(older.content);
+    expect(await loadDocument("graphql", "latest")).toBe(latest);
+  });
+
+  it("should reject unknown versions", async () => {
+    await expect(getPractice({ topic: "react", version: "v17" })).rejects.toThrow(VersionNotFoundError);
+  });
+
+  it("should serve the built-in TanStack Query v4 practices", async () => {
+    expect(await getPractice({ topic: "tanstack-query", version: "v4" })).toContain("cacheTime");
+    expect(await listSections({ topic: "tanstack-query", version: "v4" })).toContain(
+      'with `version: "v4"`'
+    );
+  });
+
+  it("should expose the versions in resource metadata", () => {
+    const resource = getResourceList().find(({ uri }) => uri === "practice://tanstack-query");
+    expect(resource?._meta.versions).toEqual(["v5", "v4"]);
+  });
+
+  it("should recommend the version matching a project's dependency", () => {
+    const { topics } = analyzePackageJson(
+      JSON.stringify({ dependencies: { "@tanstack/react-query": "^4.36.1", zustand: "^4.5.0" } })
+    );
+    expect(topics.find(({ topic }) => topic === "tanstack-query")?.version).toBe("v4");
+    expect(topics.find(({ topic }) => topic === "zustand")?.version).toBeUndefined();
+  });
+
+  it("should list available versions when a tool asks for an unknown one", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({
+      name: "get_best_practice",
+      arguments: { topic: "tanstack-query", version: "v3" },
+    });
+    const unversioned = await client.callTool({
+      name: "get_best_practice",
+      arguments: { topic: "zustand", version: "v3" },
+    });
+    await client.close();
+
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      {
+        type: "text",
+        text: 'Version "v3" of topic: tanstack-query not found. Available versions: latest, v5, v4',
+      },
+    ]);
+    expect(unversioned.content).toEqual([
+      { type: "text", text: 'Version "v3" of topic: zustand not found. Available versions: latest' },
+    ]);
+  });
+});
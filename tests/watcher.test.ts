@@ -0,0 +1,148 @@
+/**
+ * Tests for hot reloading practice files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import os from "os";
+import path from "path";
+import { mkdtempSync, writeFileSync, rmSync, unlinkSync } from "fs";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { configurePracticeDirs, getTopic, getTopicNames } from "../src/topics";
+import { reloadPractices, watchPractices, onPracticesChanged, PracticeChange } from "../src/watcher";
+import { getSearchIndex, searchIndex, resetSearchIndex } from "../src/search/searchIndex";
+import { createServer } from "../src/server";
+import { loadConfig } from "../src/config";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "practices-watch-"));
+  writeFileSync(path.join(dir, "graphql.md"), "---\nname: GraphQL\n---\n# GraphQL\n\n1. Schemas\nUse nullable fields\n");
+  configurePracticeDirs([dir]);
+});
+
+afterEach(() => {
+  configurePracticeDirs([]);
+  resetSearchIndex();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("reloadPractices", () => {
+  it("should pick up added, changed and removed topics", async () => {
+    writeFileSync(path.join(dir, "graphql.md"), "---\nname: GraphQL APIs\n---\n# GraphQL\n");
+    writeFileSync(path.join(dir, "testing.md"), "# Testing\n");
+
+    const change = reloadPractices(["graphql"]);
+    expect(change.topics).toEqual(["graphql", "testing"]);
+    expect(getTopic("graphql")?.metadata.name).toBe("GraphQL APIs");
+
+    unlinkSync(path.join(dir, "testing.md"));
+    expect(reloadPractices([]).topics).toEqual(["testing"]);
+    expect(getTopicNames()).not.toContain("testing");
+  });
+
+  it("should rebuild the search index", async () => {
+    const before = searchIndex(await getSearchIndex(), "subscriptions", { topic: "graphql" });
+    expect(before).toHaveLength(0);
+
+    writeFileSync(path.join(dir, "graphql.md"), "# GraphQL\n\n1. Subscriptions\nUse subscriptions sparingly\n");
+    reloadPractices(["graphql"]);
+
+    const after = searchIndex(await getSearchIndex(), "subscriptions", { topic: "graphql" });
+    expect(after.length).toBeGreaterThan(0);
+  });
+
+  it("should notify listeners until they unsubscribe", () => {
+    const changes: PracticeChange[] = [];
+    const stop = onPracticesChanged((change) => changes.push(change));
+
+    reloadPractices(["graphql"]);
+    stop();
+    reloadPractices(["graphql"]);
+
+    expect(changes).toEqual([{ topics: ["graphql"] }]);
+  });
+});
+
+describe("watchPractices", () => {
+  it("should reload when a practice file changes", async () => {
+    const stopWatching = watchPractices();
+    const changed = new Promise<PracticeChange>((resolve) => {
+      const stop = onPracticesChanged((change) => {
+        stop();
+        resolve(change);
+      });
+    });
+
+    writeFileSync(path.join(dir, "graphql.md"), "---\nname: Watched\n---\n# GraphQL\n");
+
+    try {
+      const change = await changed;
+      expect(change.topics).toContain("graphql");
+      expect(getTopic("graphql")?.metadata.name).toBe("Watched");
+    } finally {
+      stopWatching();
+    }
+  });
+});
+
+describe("resource notifications", () => {
+  it("should notify subscribed clients about changed resources", async () => {
+    const server = createServer();
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const updated: string[] = [];
+    let listChanged = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+
+    expect(client.getServerCapabilities()?.resources).toMatchObject({ subscribe: true });
+    await client.subscribeResource({ uri: "practice://graphql/1" });
+    await client.subscribeResource({ uri: "practice://react" });
+
+    reloadPractices(["graphql"]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(listChanged).toBe(1);
+    expect(updated).toEqual(["practice://graphql/1"]);
+
+    await client.unsubscribeResource({ uri: "practice://graphql/1" });
+    reloadPractices(["graphql"]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(updated).toHaveLength(1);
+
+    await client.close();
+  });
+
+  it("should reject subscriptions to invalid URIs", async () => {
+    const server = createServer();
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    await expect(client.subscribeResource({ uri: "practice://missing" })).rejects.toThrow(
+      "Invalid resource URI"
+    );
+
+    await client.close();
+  });
+});
+
+describe("loadConfig watch option", () => {
+  it("should enable watching from the flag or environment", () => {
+    expect(loadConfig([], {}).watch).toBe(false);
+    expect(loadConfig(["--watch"], {}).watch).toBe(true);
+    expect(loadConfig([], { PRACTICE_WATCH: "true" }).watch).toBe(true);
+  });
+});